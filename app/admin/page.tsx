@@ -8,7 +8,7 @@ import { collection, getDocs, doc, getDoc, query, orderBy, limit } from 'firebas
 import { isAdmin } from '../../lib/admin';
 import { getWalletBalance, loadMinutes, formatSecondsToMinutes } from '../../lib/wallet';
 import UserDropdown from '../../components/UserDropdown';
-import { ArrowLeft, Users, Wallet, Phone, BarChart3, Search, Plus, RefreshCw, Shield, Eye, EyeOff, Copy, Database, Trash2 } from 'lucide-react';
+import { ArrowLeft, Users, Wallet, Phone, BarChart3, Search, Plus, RefreshCw, Shield, Eye, EyeOff, Copy, Database, Trash2, Zap, Inbox, ShieldCheck } from 'lucide-react';
 
 interface UserData {
   uid: string;
@@ -31,6 +31,42 @@ interface UserWithStats extends UserData {
   };
 }
 
+interface EmbeddingCacheCounts {
+  lookups: number;
+  memoryHits: number;
+  firestoreHits: number;
+  misses: number;
+  savedTokens: number;
+  savedCostUsd: number;
+  hitRate: number;
+}
+
+interface OutboxEntry {
+  id: string;
+  kind: 'store' | 'summarize';
+  userId: string;
+  callId: string;
+  attempts: number;
+  lastError: string | null;
+  deadAt: string | null;
+  transcriptLines: number;
+}
+
+interface CircuitStatus {
+  name: string;
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+const REDACTION_LABELS: Record<string, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  card: 'Card numbers',
+  ssn: 'Social Security numbers',
+  address: 'Street addresses',
+};
+
 interface SystemStats {
   totalUsers: number;
   totalWallets: number;
@@ -72,6 +108,19 @@ export default function AdminPage() {
   } | null>(null);
   const [loadingPineconeStats, setLoadingPineconeStats] = useState(false);
   const [deletingMemories, setDeletingMemories] = useState(false);
+  const [embeddingCache, setEmbeddingCache] = useState<{
+    process: EmbeddingCacheCounts & { entries: number; maxEntries: number };
+    total: EmbeddingCacheCounts | null;
+    firestoreTier: boolean;
+  } | null>(null);
+  const [outbox, setOutbox] = useState<{
+    counts: { pending: number; dead: number };
+    dead: OutboxEntry[];
+    circuits: CircuitStatus[];
+  } | null>(null);
+  const [outboxBusy, setOutboxBusy] = useState(false);
+  const [redactionPolicy, setRedactionPolicy] = useState<{ types: string[]; available: string[] } | null>(null);
+  const [savingRedaction, setSavingRedaction] = useState(false);
   const router = useRouter();
 
   useEffect(() => {
@@ -160,6 +209,8 @@ export default function AdminPage() {
         totalBalance,
         totalCalls
       });
+
+      await Promise.all([loadEmbeddingCacheStats(), loadOutbox(), loadRedactionPolicy()]);
     } catch (error) {
       console.error('Error loading admin data:', error);
     } finally {
@@ -167,6 +218,127 @@ export default function AdminPage() {
     }
   };
 
+  const loadEmbeddingCacheStats = async () => {
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const res = await fetch('/api/admin/pinecone?action=embedding-cache', {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${idToken}`
+        }
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        setEmbeddingCache(data.stats);
+      }
+    } catch (err) {
+      console.error('Error loading embedding cache stats:', err);
+    }
+  };
+
+  const loadOutbox = async () => {
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const res = await fetch('/api/admin/pinecone?action=outbox', {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${idToken}`
+        }
+      });
+
+      if (res.ok) {
+        setOutbox(await res.json());
+      }
+    } catch (err) {
+      console.error('Error loading memory outbox:', err);
+    }
+  };
+
+  const loadRedactionPolicy = async () => {
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const res = await fetch('/api/admin/pinecone?action=redaction-policy', {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${idToken}`
+        }
+      });
+
+      if (res.ok) {
+        setRedactionPolicy(await res.json());
+      }
+    } catch (err) {
+      console.error('Error loading redaction policy:', err);
+    }
+  };
+
+  const toggleRedactionType = (type: string) => {
+    if (!redactionPolicy) return;
+    const types = redactionPolicy.types.includes(type)
+      ? redactionPolicy.types.filter(t => t !== type)
+      : [...redactionPolicy.types, type];
+    setRedactionPolicy({ ...redactionPolicy, types });
+  };
+
+  const handleSaveRedactionPolicy = async () => {
+    if (!redactionPolicy) return;
+
+    setSavingRedaction(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const res = await fetch('/api/admin/pinecone?action=redaction-policy', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ types: redactionPolicy.types })
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to save the redaction policy');
+        return;
+      }
+      setRedactionPolicy({ ...redactionPolicy, types: data.types });
+    } catch (err) {
+      console.error('Error saving redaction policy:', err);
+      alert('Failed to save the redaction policy');
+    } finally {
+      setSavingRedaction(false);
+    }
+  };
+
+  // Re-queue one dead-lettered memory write (or all without an id), or drop it
+  const handleOutboxAction = async (action: 'outbox-retry' | 'outbox-discard', id?: string) => {
+    if (action === 'outbox-discard' && !confirm('Discard this memory write? The conversation will not be remembered.')) {
+      return;
+    }
+
+    setOutboxBusy(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const res = await fetch(`/api/admin/pinecone?action=${action}${id ? `&id=${encodeURIComponent(id)}` : ''}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`
+        }
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        alert(error.error || 'Failed to update the memory outbox');
+      }
+      await loadOutbox();
+    } catch (err) {
+      console.error('Error updating memory outbox:', err);
+      alert('Failed to update the memory outbox');
+    } finally {
+      setOutboxBusy(false);
+    }
+  };
+
   const handleAddMinutes = async () => {
     if (!selectedUser || !minutesToAdd) return;
     
@@ -320,6 +492,9 @@ export default function AdminPage() {
     return null;
   }
 
+  // All instances when Firebase Admin keeps totals, otherwise this server instance
+  const cacheCounts = embeddingCache ? (embeddingCache.total || embeddingCache.process) : null;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#0A2647] via-[#144272] to-[#205295]">
       {/* Header */}
@@ -389,6 +564,161 @@ export default function AdminPage() {
           </div>
         </div>
 
+        {/* Embedding cache */}
+        {embeddingCache && cacheCounts && (
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-500 text-sm">Embedding Cache Hit Rate</p>
+                <p className="text-3xl font-bold text-[#0A2647]">{(cacheCounts.hitRate * 100).toFixed(1)}%</p>
+              </div>
+              <Zap className="w-8 h-8 text-yellow-500" />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+              <div>
+                <p className="text-gray-500">Lookups</p>
+                <p className="font-semibold text-[#0A2647]">{cacheCounts.lookups.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Hits (memory / Firestore)</p>
+                <p className="font-semibold text-[#0A2647]">
+                  {cacheCounts.memoryHits.toLocaleString()} / {cacheCounts.firestoreHits.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Embedded</p>
+                <p className="font-semibold text-[#0A2647]">{cacheCounts.misses.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Estimated Savings</p>
+                <p className="font-semibold text-[#0A2647]">
+                  ~{cacheCounts.savedTokens.toLocaleString()} tokens (${cacheCounts.savedCostUsd.toFixed(2)})
+                </p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+              {embeddingCache.total ? 'All server instances' : 'This server instance only'}
+              {' · '}{embeddingCache.process.entries.toLocaleString()} of {embeddingCache.process.maxEntries.toLocaleString()} vectors cached in process
+              {' · '}Firestore tier {embeddingCache.firestoreTier ? 'on' : 'off'}
+            </p>
+          </div>
+        )}
+
+        {/* Memory write outbox */}
+        {outbox && (
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-500 text-sm">Memory Writes Waiting for Retry</p>
+                <p className="text-3xl font-bold text-[#0A2647]">
+                  {outbox.counts.pending}
+                  <span className={`text-base font-normal ml-3 ${outbox.counts.dead > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                    {outbox.counts.dead} dead-lettered
+                  </span>
+                </p>
+              </div>
+              <Inbox className="w-8 h-8 text-[#2C74B3]" />
+            </div>
+            {outbox.circuits.length > 0 && (
+              <p className="text-xs text-gray-500 mt-3">
+                Circuits (this instance):{' '}
+                {outbox.circuits.map(circuit => (
+                  <span key={circuit.name} className={`mr-3 ${circuit.state === 'closed' ? '' : 'text-red-600 font-semibold'}`}>
+                    {circuit.name} {circuit.state}{circuit.state !== 'closed' && circuit.lastError ? ` (${circuit.lastError})` : ''}
+                  </span>
+                ))}
+              </p>
+            )}
+            {outbox.dead.length > 0 && (
+              <div className="mt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-semibold text-[#0A2647]">Dead letters</p>
+                  <button
+                    onClick={() => handleOutboxAction('outbox-retry')}
+                    disabled={outboxBusy}
+                    className="text-sm text-[#2C74B3] hover:text-[#205295] disabled:opacity-50"
+                  >
+                    Retry all
+                  </button>
+                </div>
+                <div className="divide-y divide-gray-100 text-sm">
+                  {outbox.dead.map(entry => (
+                    <div key={entry.id} className="py-2 flex flex-col sm:flex-row sm:items-center gap-2 justify-between">
+                      <div className="min-w-0">
+                        <p className="text-[#0A2647]">
+                          {entry.kind} · call {entry.callId} · user {entry.userId}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {entry.attempts} attempts, {entry.transcriptLines} transcript lines
+                          {entry.deadAt ? ` · ${new Date(entry.deadAt).toLocaleString()}` : ''}
+                          {entry.lastError ? ` · ${entry.lastError}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex gap-3 flex-shrink-0">
+                        <button
+                          onClick={() => handleOutboxAction('outbox-retry', entry.id)}
+                          disabled={outboxBusy}
+                          className="text-[#2C74B3] hover:text-[#205295] disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                        <button
+                          onClick={() => handleOutboxAction('outbox-discard', entry.id)}
+                          disabled={outboxBusy}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* PII redaction */}
+        {redactionPolicy && (
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-500 text-sm">Masked Before Memories Are Stored</p>
+                <p className="text-3xl font-bold text-[#0A2647]">
+                  {redactionPolicy.types.length} of {redactionPolicy.available.length}
+                  <span className="text-base font-normal text-gray-500 ml-3">entity types</span>
+                </p>
+              </div>
+              <ShieldCheck className="w-8 h-8 text-green-600" />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 mt-4 text-sm">
+              {redactionPolicy.available.map(type => (
+                <label key={type} className="flex items-center gap-2 text-[#0A2647]">
+                  <input
+                    type="checkbox"
+                    checked={redactionPolicy.types.includes(type)}
+                    onChange={() => toggleRedactionType(type)}
+                    disabled={savingRedaction}
+                  />
+                  {REDACTION_LABELS[type] || type}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-xs text-gray-500">
+                Applies to new and edited memories; already stored memories are not changed.
+              </p>
+              <button
+                onClick={handleSaveRedactionPolicy}
+                disabled={savingRedaction}
+                className="px-4 py-2 bg-[#2C74B3] text-white rounded-lg hover:bg-[#205295] disabled:opacity-50 text-sm"
+              >
+                {savingRedaction ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Search and Actions */}
         <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
           <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
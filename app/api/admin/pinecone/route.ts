@@ -1,7 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminAuth } from '@/lib/firebase-admin';
 import { isAdmin } from '@/lib/admin';
-import { getUserMemoryStats, deleteUserMemories, listUsersWithMemories, ensurePineconeReady } from '@/lib/vector-memory';
+import { getUserMemoryStats, deleteUserMemories, listUsersWithMemories, ensureVectorStoreReady, setMemoryPinned } from '@/lib/vector-memory';
+import { updateUserFactsFromStoredCalls } from '@/lib/user-facts';
+import { getNamespaceMigrationProgress, migrateToUserNamespaces } from '@/lib/namespace-migration';
+import {
+  loadEmbeddingTarget,
+  getEmbeddingMigrationProgress,
+  startEmbeddingMigration,
+  runEmbeddingMigration,
+  cancelEmbeddingMigration,
+} from '@/lib/embedding-migration';
+import {
+  getGlobalRetentionPolicy,
+  setGlobalRetentionPolicy,
+  getUserRetentionOverrides,
+  setUserRetentionOverrides,
+  getEffectiveRetentionPolicy,
+  purgeExpiredMemories,
+  listPurgeRuns,
+} from '@/lib/memory-retention';
+import { getEmbeddingCacheStats } from '@/lib/embedding-cache';
+import { getCircuitStatuses } from '@/lib/circuit-breaker';
+import {
+  getOutboxCounts,
+  listOutboxEntries,
+  processMemoryOutbox,
+  retryDeadLetters,
+  discardOutboxEntry,
+} from '@/lib/memory-outbox';
+import { getRedactedTypes, setRedactedTypes, PII_TYPES } from '@/lib/pii-redaction';
+import { exportUserMemories, toJsonl, toMarkdownJournal, parseJsonl, importUserMemories, MAX_IMPORT_MEMORIES } from '@/lib/memory-export';
+
+/**
+ * Run a long operation and stream its progress as newline-delimited JSON:
+ * {"type":"progress",...} lines, then {"type":"done",...result} or {"type":"error","error":"..."}
+ */
+function streamProgress(
+  run: (report: (progress: object) => void) => Promise<object>
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      try {
+        const result = await run((progress) => send({ type: 'progress', ...progress }));
+        send({ type: 'done', ...result });
+      } catch (error) {
+        console.error('Error in Pinecone admin API:', error);
+        send({ type: 'error', error: (error as Error)?.message || 'Internal server error' });
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+  });
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,11 +78,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden: Not an admin' }, { status: 403 });
     }
 
-    await ensurePineconeReady();
+    await ensureVectorStoreReady();
 
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
     const action = searchParams.get('action');
+    const stream = searchParams.get('stream') === 'true';
 
     if (action === 'list-users') {
       // List all users with memories
@@ -35,6 +91,77 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ userIds });
     }
 
+    if (action === 'migration-status') {
+      // Progress of the move into per-user namespaces
+      const progress = await getNamespaceMigrationProgress();
+      return NextResponse.json({ progress });
+    }
+
+    if (action === 'embedding-status') {
+      // Active and pending embedding targets and re-embedding progress
+      const target = await loadEmbeddingTarget(true);
+      const progress = await getEmbeddingMigrationProgress();
+      return NextResponse.json({ target, progress });
+    }
+
+    if (action === 'embedding-cache') {
+      // Embedding cache hit rates and estimated savings (this instance and all instances)
+      const stats = await getEmbeddingCacheStats();
+      return NextResponse.json({ stats });
+    }
+
+    if (action === 'outbox') {
+      // Failed memory writes waiting for retry, dead letters, and this instance's circuit breakers
+      const [counts, dead] = await Promise.all([getOutboxCounts(), listOutboxEntries('dead')]);
+      return NextResponse.json({ counts, dead, circuits: getCircuitStatuses() });
+    }
+
+    if (action === 'retention-policy') {
+      // Global policy, or with userId the user's overrides and effective policy
+      const global = await getGlobalRetentionPolicy();
+      if (!userId) {
+        return NextResponse.json({ policy: global });
+      }
+      return NextResponse.json({
+        overrides: await getUserRetentionOverrides(userId),
+        policy: await getEffectiveRetentionPolicy(userId, global),
+      });
+    }
+
+    if (action === 'redaction-policy') {
+      // Entity types masked before memories are embedded and stored
+      const types = await getRedactedTypes(true);
+      return NextResponse.json({ types, available: PII_TYPES });
+    }
+
+    if (action === 'purge-runs') {
+      // Recent retention purges and what they removed
+      const runs = await listPurgeRuns(Number(searchParams.get('limit')) || 10);
+      return NextResponse.json({ runs });
+    }
+
+    if (userId && action === 'export') {
+      // Data portability: JSON Lines (default) or Markdown journal of the user's memories
+      const format = searchParams.get('format') || 'jsonl';
+      if (format !== 'jsonl' && format !== 'markdown') {
+        return NextResponse.json({ error: 'format must be jsonl or markdown' }, { status: 400 });
+      }
+      const memories = await exportUserMemories(userId);
+      const content = format === 'markdown' ? toMarkdownJournal(memories) : toJsonl(memories);
+      return new NextResponse(content, {
+        headers: {
+          'Content-Type': format === 'markdown' ? 'text/markdown; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+          'Content-Disposition': `attachment; filename="memories-${userId}.${format === 'markdown' ? 'md' : 'jsonl'}"`,
+        },
+      });
+    }
+
+    if (userId && action === 'stats' && stream) {
+      return streamProgress(async (report) => ({
+        stats: await getUserMemoryStats(userId, (processed) => report({ processed })),
+      }));
+    }
+
     if (userId && action === 'stats') {
       // Get user's memory statistics
       const stats = await getUserMemoryStats(userId);
@@ -71,7 +198,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden: Not an admin' }, { status: 403 });
     }
 
-    await ensurePineconeReady();
+    await ensureVectorStoreReady();
 
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
@@ -80,6 +207,13 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'userId is required' }, { status: 400 });
     }
 
+    if (searchParams.get('stream') === 'true') {
+      return streamProgress(async (report) => {
+        const deletedCount = await deleteUserMemories(userId, (processed) => report({ processed }));
+        return { success: true, deletedCount };
+      });
+    }
+
     // Delete all memories for the user
     const deletedCount = await deleteUserMemories(userId);
     return NextResponse.json({ 
@@ -96,3 +230,187 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    const token = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth?.verifyIdToken(token);
+    } catch (error) {
+      console.error('Error verifying ID token:', error);
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!decodedToken || !isAdmin(decodedToken)) {
+      return NextResponse.json({ error: 'Forbidden: Not an admin' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const action = searchParams.get('action');
+
+    if (userId && action === 'extract-facts') {
+      // Backfill the user's fact profile from their stored call transcripts
+      const result = await updateUserFactsFromStoredCalls(userId);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (userId && action === 'pin') {
+      // Pin (or with pinned=false, unpin) a memory on the user's behalf
+      const memoryId = searchParams.get('memoryId');
+      if (!memoryId) {
+        return NextResponse.json({ error: 'memoryId is required' }, { status: 400 });
+      }
+      await ensureVectorStoreReady();
+      const memory = await setMemoryPinned(userId, memoryId, searchParams.get('pinned') !== 'false', 'admin');
+      if (!memory) {
+        return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, memory });
+    }
+
+    if (action === 'migrate-namespaces') {
+      // Move memories out of the shared namespace; maxBatches bounds the work per request,
+      // call again while the returned status is 'paused'
+      await ensureVectorStoreReady();
+      const batchSize = Number(searchParams.get('batchSize')) || undefined;
+      const maxBatches = searchParams.get('maxBatches') ? Number(searchParams.get('maxBatches')) : 20;
+      if (searchParams.get('stream') === 'true') {
+        return streamProgress(async (report) => ({
+          success: true,
+          progress: await migrateToUserNamespaces({ batchSize, maxBatches, onProgress: (progress) => report({ progress }) }),
+        }));
+      }
+      const progress = await migrateToUserNamespaces({ batchSize, maxBatches });
+      return NextResponse.json({ success: true, progress });
+    }
+
+    if (action === 'reembed-start') {
+      // Start re-embedding into a new namespace generation (indexName: new Pinecone index, needed for another dimension)
+      const provider = searchParams.get('provider');
+      if (!provider) {
+        return NextResponse.json({ error: 'provider is required' }, { status: 400 });
+      }
+      await ensureVectorStoreReady();
+      const progress = await startEmbeddingMigration(
+        {
+          provider,
+          model: searchParams.get('model') || undefined,
+          dimension: Number(searchParams.get('dimension')) || undefined,
+        },
+        { indexName: searchParams.get('indexName') || undefined }
+      );
+      return NextResponse.json({ success: true, progress });
+    }
+
+    if (action === 'reembed') {
+      // Run or continue the started re-embedding; call again while the returned status is 'paused'.
+      // Search switches to the new vectors when it completes
+      await ensureVectorStoreReady();
+      const batchSize = Number(searchParams.get('batchSize')) || undefined;
+      const maxBatches = searchParams.get('maxBatches') ? Number(searchParams.get('maxBatches')) : 20;
+      if (searchParams.get('stream') === 'true') {
+        return streamProgress(async (report) => ({
+          success: true,
+          progress: await runEmbeddingMigration({ batchSize, maxBatches, onProgress: (progress) => report({ progress }) }),
+        }));
+      }
+      const progress = await runEmbeddingMigration({ batchSize, maxBatches });
+      return NextResponse.json({ success: true, progress });
+    }
+
+    if (action === 'retention-policy') {
+      // JSON body { policy: { utterance: 90, summary: 730, note: null, ... } } in days (null = forever);
+      // with userId it replaces that user's overrides
+      const body = await request.json().catch(() => ({}));
+      if (!body.policy || typeof body.policy !== 'object') {
+        return NextResponse.json({ error: 'policy is required' }, { status: 400 });
+      }
+      if (userId) {
+        const overrides = await setUserRetentionOverrides(userId, body.policy);
+        return NextResponse.json({ success: true, overrides });
+      }
+      const policy = await setGlobalRetentionPolicy(body.policy);
+      return NextResponse.json({ success: true, policy });
+    }
+
+    if (action === 'redaction-policy') {
+      // JSON body { types: ['email', 'phone', ...] }; an empty list turns redaction off
+      const body = await request.json().catch(() => ({}));
+      if (!Array.isArray(body.types)) {
+        return NextResponse.json({ error: 'types is required' }, { status: 400 });
+      }
+      const types = await setRedactedTypes(body.types);
+      return NextResponse.json({ success: true, types });
+    }
+
+    if (action === 'purge') {
+      // Run the retention purge now (all users, or only userId); dryRun=true only reports
+      await ensureVectorStoreReady();
+      const purgeOptions = {
+        userIds: userId ? [userId] : undefined,
+        dryRun: searchParams.get('dryRun') === 'true',
+      };
+      if (searchParams.get('stream') === 'true') {
+        return streamProgress(async (report) => ({
+          success: true,
+          report: await purgeExpiredMemories({ ...purgeOptions, onProgress: report }),
+        }));
+      }
+      const report = await purgeExpiredMemories(purgeOptions);
+      return NextResponse.json({ success: true, report });
+    }
+
+    if (userId && action === 'import') {
+      // Restore a JSONL export (request body) into the user, e.g. when moving an account between environments
+      await ensureVectorStoreReady();
+      const { memories, errors } = parseJsonl(await request.text());
+      if (memories.length > MAX_IMPORT_MEMORIES) {
+        return NextResponse.json({ error: `At most ${MAX_IMPORT_MEMORIES} memories can be imported at once` }, { status: 400 });
+      }
+      const result = await importUserMemories(userId, memories);
+      return NextResponse.json({ success: true, imported: result.imported, errors: [...errors, ...result.errors] });
+    }
+
+    if (action === 'outbox-process') {
+      // Retry due outbox entries now instead of waiting for the cron job
+      await ensureVectorStoreReady();
+      const report = await processMemoryOutbox({ limit: Number(searchParams.get('limit')) || 20 });
+      return NextResponse.json({ success: true, report });
+    }
+
+    if (action === 'outbox-retry') {
+      // Re-queue a dead-lettered write (id), or all of them
+      const requeued = await retryDeadLetters(searchParams.get('id') || undefined);
+      return NextResponse.json({ success: true, requeued });
+    }
+
+    if (action === 'outbox-discard') {
+      const id = searchParams.get('id');
+      if (!id) {
+        return NextResponse.json({ error: 'id is required' }, { status: 400 });
+      }
+      const discarded = await discardOutboxEntry(id);
+      return NextResponse.json({ success: discarded });
+    }
+
+    if (action === 'reembed-cancel') {
+      const progress = await cancelEmbeddingMigration();
+      return NextResponse.json({ success: true, progress });
+    }
+
+    return NextResponse.json({ error: 'Invalid action or missing userId' }, { status: 400 });
+  } catch (error) {
+    console.error('Error in Pinecone admin API:', error);
+    return NextResponse.json(
+      { error: (error as Error)?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
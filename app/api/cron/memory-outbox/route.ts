@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkCronRequest } from '@/lib/request-auth';
+import { ensureVectorStoreReady } from '@/lib/vector-memory';
+import { processMemoryOutbox } from '@/lib/memory-outbox';
+
+// Each retried write embeds and summarizes a call; leave room for a full batch
+export const maxDuration = 300;
+
+// Stop picking up new entries after this, so the run finishes within maxDuration
+const DEADLINE_MS = 240 * 1000;
+
+/**
+ * Scheduled retry of failed memory writes (see the crons entry in vercel.json).
+ * Authorized with CRON_SECRET (see lib/request-auth.ts).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rejected = checkCronRequest(request);
+    if (rejected) return rejected;
+
+    await ensureVectorStoreReady();
+
+    const report = await processMemoryOutbox({ limit: 50, deadlineMs: DEADLINE_MS });
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('Error processing memory outbox:', error);
+    return NextResponse.json(
+      { error: (error as Error)?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkCronRequest } from '@/lib/request-auth';
+import { ensureVectorStoreReady } from '@/lib/vector-memory';
+import { purgeExpiredMemories } from '@/lib/memory-retention';
+
+// The purge walks every user; allow it the maximum run time
+export const maxDuration = 300;
+
+// Stop starting new users after this, so the run finishes within maxDuration; the next run resumes
+const DEADLINE_MS = 240 * 1000;
+
+/**
+ * Scheduled retention purge (see the crons entry in vercel.json).
+ * Authorized with CRON_SECRET (see lib/request-auth.ts).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rejected = checkCronRequest(request);
+    if (rejected) return rejected;
+
+    await ensureVectorStoreReady();
+
+    const report = await purgeExpiredMemories({ deadlineMs: DEADLINE_MS, resume: true });
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('Error running retention purge:', error);
+    return NextResponse.json(
+      { error: (error as Error)?.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
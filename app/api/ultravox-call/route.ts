@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRelevantContext, ensurePineconeReady } from '@/lib/vector-memory';
+import { buildCallContext, ensureVectorStoreReady } from '@/lib/vector-memory';
+import { buildRetrievalQueries } from '@/lib/retrieval-queries';
+import { getUserFacts, formatUserFacts } from '@/lib/user-facts';
+import { getAuthenticatedUserId } from '@/lib/request-auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,28 +21,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Ensure Pinecone is ready (index exists) before any vector operations
-    await ensurePineconeReady().catch(() => {
+    // The call context holds the user's memories and facts: only for the user themselves
+    const userId = await getAuthenticatedUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Ensure the vector store is ready before any vector operations
+    await ensureVectorStoreReady().catch(() => {
       // Continue without vector search if initialization fails
     });
 
     // Get request body
     const body = await request.json();
-    const { firstName, lastCallTranscript, currentTime, userLocation, totalCalls, alexEthnicity, walletBalance, userId, conversationQuery } = body;
+    const { firstName, lastCallTranscript, currentTime, userLocation, totalCalls, alexEthnicity, walletBalance, conversationQuery } = body;
 
-    // Use vector memory to get relevant context if available
-    let relevantContext = lastCallTranscript || 'No previous call. This is the first call';
-    
-    if (userId && conversationQuery) {
-      try {
-        const vectorContext = await getRelevantContext(userId, conversationQuery, 3);
-        if (vectorContext && vectorContext !== 'No previous conversation history available.') {
-          relevantContext = vectorContext;
-        }
-      } catch (error) {
-        console.error('Error getting vector context, falling back to lastCallTranscript:', error);
-        // Fallback to lastCallTranscript if vector search fails
-      }
+    // Vector memories within a token budget, falling back to the last call's transcript.
+    // Several queries (latest summary, follow-ups, time of day) merged into one context
+    const queries = await buildRetrievalQueries(userId, {
+      firstName,
+      currentTime,
+      extraQuery: conversationQuery,
+    });
+    const callContext = await buildCallContext(userId, queries, {
+      userName: firstName,
+      fallbackTranscript: lastCallTranscript,
+    });
+    const relevantContext = callContext.context;
+    console.log('🧠 Call context:', { source: callContext.source, tokens: callContext.tokens, queries: queries.length });
+
+    // Stable facts about the user are always included, independent of the search query
+    let userFacts = formatUserFacts([]);
+    try {
+      userFacts = formatUserFacts(await getUserFacts(userId));
+    } catch (error) {
+      console.error('Error getting user facts:', error);
     }
 
     // Use wallet balance passed from client for maxDuration
@@ -94,6 +110,7 @@ export async function POST(request: NextRequest) {
         templateContext: {
           userFirstname: firstName || 'User',
           lastCallTranscript: relevantContext,
+          userFacts,
           currentTime: currentTime || new Date().toLocaleTimeString(),
           userLocation: userLocation || 'Unknown Location',
           userTotalCalls: totalCalls?.toString() || '0'
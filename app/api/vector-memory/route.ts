@@ -1,49 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRelevantContext, storeConversationMemory, ensurePineconeReady } from '@/lib/vector-memory';
+import { getAuthenticatedUserId } from '@/lib/request-auth';
+import {
+  getRelevantContext,
+  ensureVectorStoreReady,
+  listMemories,
+  getMemory,
+  updateMemoryText,
+  setMemoryPinned,
+  rememberNote,
+  forgetMatching,
+  searchMemories,
+  recallMemories,
+  deleteMemory,
+  deleteCallMemories,
+} from '@/lib/vector-memory';
+import type { MemoryType } from '@/lib/vector-memory';
+import { exportUserMemories, toJsonl, toMarkdownJournal, parseJsonl, importUserMemories, MAX_IMPORT_MEMORIES } from '@/lib/memory-export';
+import { performMemoryWrite, enqueueMemoryWrite } from '@/lib/memory-outbox';
+import type { MemoryWrite } from '@/lib/memory-outbox';
+import { isRankingProfileName, RANKING_PROFILES } from '@/lib/memory-ranking';
+import { forgetUserFacts } from '@/lib/user-facts';
+
+const MEMORY_TYPES: MemoryType[] = ['utterance', 'conversation', 'summary', 'note'];
+
+// Actions on the caller's own memories; the user comes from the ID token, never from the body
+const USER_ACTIONS = ['search', 'list', 'get', 'find', 'recall', 'update', 'pin', 'unpin', 'remember', 'forget', 'delete', 'deleteCall', 'export', 'import'] as const;
+
+/**
+ * Request body of each memory management action. Values come straight from the client,
+ * so they are checked in the handler before use.
+ */
+type UserActionBody =
+  | { action: 'search'; queryText?: unknown; rankingProfile?: unknown; keywordWeight?: unknown }
+  | { action: 'list'; limit?: unknown; cursor?: unknown; speaker?: unknown; callId?: unknown; types?: unknown; from?: unknown; to?: unknown }
+  | { action: 'get' | 'pin' | 'unpin' | 'delete'; memoryId?: unknown }
+  | { action: 'find'; queryText?: unknown; limit?: unknown }
+  | { action: 'recall'; queryText?: unknown; limit?: unknown; callId?: unknown; userName?: unknown }
+  | { action: 'update'; memoryId?: unknown; text?: unknown }
+  | { action: 'remember'; text?: unknown; callId?: unknown }
+  | { action: 'forget'; phrase?: unknown; callId?: unknown }
+  | { action: 'deleteCall'; callId?: unknown }
+  | { action: 'export'; format?: unknown; userName?: unknown }
+  | { action: 'import'; jsonl?: unknown; memories?: unknown };
+
+function isUserActionBody(body: { action?: unknown }): body is UserActionBody {
+  return (USER_ACTIONS as readonly unknown[]).includes(body.action);
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && !!value;
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
 
 export async function POST(request: NextRequest) {
   try {
-    // Ensure Pinecone index exists (runs once per runtime)
-    await ensurePineconeReady();
+    // Ensure the vector store is ready (runs once per runtime)
+    await ensureVectorStoreReady();
 
     const body = await request.json();
-    const { userId, queryText, action, callId, transcripts } = body;
+    const { userId, action, callId, transcripts } = body;
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
-      );
+    if (isUserActionBody(body)) {
+      const callerId = await getAuthenticatedUserId(request);
+      if (!callerId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      return await handleUserAction(callerId, body);
     }
 
-    if (action === 'search') {
-      // Get relevant context using semantic search
-      if (!queryText) {
-        return NextResponse.json(
-          { error: 'queryText is required for search action' },
-          { status: 400 }
-        );
+    if (action === 'store' || action === 'summarize') {
+      // store: conversation memory; summarize: the final transcript, a post-call summary and user facts.
+      // Both write (and replace) the caller's own memories: the user comes from the ID token
+      const callerId = await getAuthenticatedUserId(request);
+      if (!callerId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
       }
 
-      const context = await getRelevantContext(userId, queryText, 3);
-      return NextResponse.json({ context });
-    }
-
-    if (action === 'store') {
-      // Store conversation memory
       if (!callId || !transcripts) {
         return NextResponse.json(
-          { error: 'callId and transcripts are required for store action' },
+          { error: `callId and transcripts are required for ${action} action` },
           { status: 400 }
         );
       }
 
-      await storeConversationMemory(userId, callId, transcripts);
-      return NextResponse.json({ success: true });
+      const write: MemoryWrite = { kind: action, userId: callerId, callId, transcripts };
+      if (action === 'summarize') {
+        // Forget requests soft-delete memories, so they are only taken from the user themselves:
+        // a summarize naming another user is refused instead of being applied to the caller
+        if (userId && userId !== callerId) {
+          return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        // Topics the user asked Alex to forget during the call (see the forgetThat client tool)
+        write.forgetPhrases = Array.isArray(body.forgetPhrases)
+          ? body.forgetPhrases.filter((phrase: unknown): phrase is string => typeof phrase === 'string' && !!phrase.trim())
+          : [];
+      }
+
+      try {
+        const result = await performMemoryWrite(write);
+        return NextResponse.json({ success: true, ...result });
+      } catch (error) {
+        // Retried later from the outbox, so the conversation is still remembered
+        const queued = await enqueueMemoryWrite(write, error);
+        if (!queued) throw error;
+        return NextResponse.json({ success: false, queued: true }, { status: 202 });
+      }
     }
 
     return NextResponse.json(
-      { error: 'Invalid action. Use "search" or "store"' },
+      { error: `Invalid action. Use "store", "summarize" or one of: ${USER_ACTIONS.join(', ')}` },
       { status: 400 }
     );
   } catch (error) {
@@ -54,3 +123,262 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Memory management actions, scoped to the authenticated caller
+ */
+async function handleUserAction(userId: string, body: UserActionBody): Promise<NextResponse> {
+  const { action } = body;
+
+  if (body.action === 'search') {
+    // Formatted context from a semantic search (pinned notes and summaries included)
+    const { queryText, rankingProfile, keywordWeight } = body;
+    if (!isNonEmptyString(queryText)) {
+      return NextResponse.json(
+        { error: 'queryText is required for search action' },
+        { status: 400 }
+      );
+    }
+
+    if (rankingProfile !== undefined && !isRankingProfileName(rankingProfile)) {
+      return NextResponse.json(
+        { error: `rankingProfile must be one of: ${Object.keys(RANKING_PROFILES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (keywordWeight !== undefined && (typeof keywordWeight !== 'number' || keywordWeight < 0)) {
+      return NextResponse.json(
+        { error: 'keywordWeight must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const context = await getRelevantContext(userId, queryText, 3, { ranking: rankingProfile, keywordWeight });
+    return NextResponse.json({ context });
+  }
+
+  if (body.action === 'list') {
+    // Page through memories, newest first
+    const from = parseDate(body.from);
+    const to = parseDate(body.to);
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates' },
+        { status: 400 }
+      );
+    }
+
+    const { types } = body;
+    if (types !== undefined && (!Array.isArray(types) || !types.every(type => MEMORY_TYPES.includes(type)))) {
+      return NextResponse.json(
+        { error: `types must be an array of: ${MEMORY_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.limit !== undefined && (typeof body.limit !== 'number' || body.limit < 1)) {
+      return NextResponse.json(
+        { error: 'limit must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const page = await listMemories(userId, {
+      limit: body.limit,
+      cursor: typeof body.cursor === 'string' ? body.cursor : undefined,
+      speaker: isNonEmptyString(body.speaker) ? body.speaker : undefined,
+      callId: isNonEmptyString(body.callId) ? body.callId : undefined,
+      types: types as MemoryType[] | undefined,
+      from,
+      to,
+    });
+    return NextResponse.json(page);
+  }
+
+  if (body.action === 'get') {
+    const { memoryId } = body;
+    if (!isNonEmptyString(memoryId)) {
+      return NextResponse.json(
+        { error: 'memoryId is required for get action' },
+        { status: 400 }
+      );
+    }
+
+    const memory = await getMemory(userId, memoryId);
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+    return NextResponse.json({ memory });
+  }
+
+  if (body.action === 'find') {
+    // Semantic search returning memory entries (not formatted context)
+    if (!isNonEmptyString(body.queryText)) {
+      return NextResponse.json(
+        { error: 'queryText is required for find action' },
+        { status: 400 }
+      );
+    }
+
+    const limit = typeof body.limit === 'number' && body.limit > 0 ? Math.min(body.limit, 50) : 20;
+    const memories = await searchMemories(userId, body.queryText, limit);
+    return NextResponse.json({ memories });
+  }
+
+  if (body.action === 'recall') {
+    // Mid-call lookup for the recallMemory tool: short, dated snippets
+    if (typeof body.queryText !== 'string' || !body.queryText.trim()) {
+      return NextResponse.json(
+        { error: 'queryText is required for recall action' },
+        { status: 400 }
+      );
+    }
+
+    const limit = typeof body.limit === 'number' && body.limit > 0 ? Math.min(body.limit, 10) : 5;
+    const { snippets } = await recallMemories(userId, body.queryText.trim(), {
+      limit,
+      excludeCallId: typeof body.callId === 'string' ? body.callId : undefined,
+      userName: typeof body.userName === 'string' ? body.userName : undefined,
+    });
+    return NextResponse.json({ snippets });
+  }
+
+  if (body.action === 'update') {
+    // Correct the text of a memory
+    const { memoryId } = body;
+    if (!isNonEmptyString(memoryId) || typeof body.text !== 'string' || !body.text.trim()) {
+      return NextResponse.json(
+        { error: 'memoryId and text are required for update action' },
+        { status: 400 }
+      );
+    }
+
+    const memory = await updateMemoryText(userId, memoryId, body.text.trim());
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, memory });
+  }
+
+  if (body.action === 'pin' || body.action === 'unpin') {
+    // Pinned memories are always included in the call context
+    const { memoryId } = body;
+    if (!isNonEmptyString(memoryId)) {
+      return NextResponse.json(
+        { error: `memoryId is required for ${action} action` },
+        { status: 400 }
+      );
+    }
+
+    const memory = await setMemoryPinned(userId, memoryId, action === 'pin', 'user');
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, memory });
+  }
+
+  if (body.action === 'remember') {
+    // "Remember this": a new pinned note
+    if (typeof body.text !== 'string' || !body.text.trim()) {
+      return NextResponse.json(
+        { error: 'text is required for remember action' },
+        { status: 400 }
+      );
+    }
+
+    const memory = await rememberNote(userId, body.text.trim(), isNonEmptyString(body.callId) ? body.callId : undefined);
+    return NextResponse.json({ success: true, memory });
+  }
+
+  if (body.action === 'forget') {
+    // "Forget that": soft-delete memories about a phrase
+    if (typeof body.phrase !== 'string' || !body.phrase.trim()) {
+      return NextResponse.json(
+        { error: 'phrase is required for forget action' },
+        { status: 400 }
+      );
+    }
+
+    const phrase = body.phrase.trim();
+    const scopedCallId = isNonEmptyString(body.callId) ? body.callId : undefined;
+    const forgotten = await forgetMatching(userId, phrase, { callId: scopedCallId });
+    // Facts extracted into the profile are not tied to one call; they go with a user-wide forget
+    const forgottenFacts = scopedCallId ? [] : await forgetUserFacts(userId, phrase);
+    return NextResponse.json({ success: true, forgotten, forgottenFacts });
+  }
+
+  if (body.action === 'delete') {
+    const { memoryId } = body;
+    if (!isNonEmptyString(memoryId)) {
+      return NextResponse.json(
+        { error: 'memoryId is required for delete action' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteMemory(userId, memoryId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  }
+
+  if (body.action === 'deleteCall') {
+    const { callId } = body;
+    if (!isNonEmptyString(callId)) {
+      return NextResponse.json(
+        { error: 'callId is required for deleteCall action' },
+        { status: 400 }
+      );
+    }
+
+    const deletedCount = await deleteCallMemories(userId, callId);
+    return NextResponse.json({ success: true, deletedCount });
+  }
+
+  if (body.action === 'export') {
+    // Download as JSON Lines (default) or a Markdown journal
+    const format = body.format || 'jsonl';
+    if (format !== 'jsonl' && format !== 'markdown') {
+      return NextResponse.json({ error: 'format must be jsonl or markdown' }, { status: 400 });
+    }
+
+    const memories = await exportUserMemories(userId);
+    const date = new Date().toISOString().slice(0, 10);
+    const content = format === 'markdown'
+      ? toMarkdownJournal(memories, { userName: typeof body.userName === 'string' ? body.userName : undefined })
+      : toJsonl(memories);
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': format === 'markdown' ? 'text/markdown; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="alex-memories-${date}.${format === 'markdown' ? 'md' : 'jsonl'}"`,
+      },
+    });
+  }
+
+  if (body.action === 'import') {
+    // Restore a JSONL export (jsonl) or parsed memories (memories); memories are re-embedded
+    const parsed = typeof body.jsonl === 'string'
+      ? parseJsonl(body.jsonl)
+      : { memories: Array.isArray(body.memories) ? body.memories : [], errors: [] };
+
+    if (parsed.memories.length === 0 && parsed.errors.length === 0) {
+      return NextResponse.json(
+        { error: 'jsonl or memories is required for import action' },
+        { status: 400 }
+      );
+    }
+    if (parsed.memories.length > MAX_IMPORT_MEMORIES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_IMPORT_MEMORIES} memories can be imported at once` },
+        { status: 400 }
+      );
+    }
+
+    const result = await importUserMemories(userId, parsed.memories);
+    return NextResponse.json({ success: true, imported: result.imported, errors: [...parsed.errors, ...result.errors] });
+  }
+
+  return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+}
@@ -8,13 +8,14 @@ import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { initWalletForUser, getWalletBalance } from '../../lib/wallet';
 import WalletDisplay from '../../components/WalletDisplay';
 import UserDropdown from '../../components/UserDropdown';
-import { ArrowLeft, Settings, Globe, Bell, Shield } from 'lucide-react';
+import { ArrowLeft, Settings, Globe, Bell, Shield, Brain } from 'lucide-react';
 
 export default function DashboardPage() {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [walletBalance, setWalletBalance] = useState<number>(0);
   const [alexEthnicity, setAlexEthnicity] = useState<string>('English');
+  const [saveConversationHistory, setSaveConversationHistory] = useState<boolean>(true);
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<string>('');
   const [mustChangePassword, setMustChangePassword] = useState<boolean>(false);
@@ -51,6 +52,7 @@ export default function DashboardPage() {
       if (userDoc.exists()) {
         const userData = userDoc.data();
         setAlexEthnicity(userData.alexEthnicity || 'English');
+        setSaveConversationHistory(userData.saveConversationHistory !== false);
         if (userData.mustChangePassword === true) {
           setMustChangePassword(true);
         }
@@ -85,7 +87,9 @@ export default function DashboardPage() {
     try {
       const userRef = doc(db, 'users', user.uid);
       await setDoc(userRef, {
-        alexEthnicity: alexEthnicity
+        alexEthnicity: alexEthnicity,
+        // Read by the daily retention purge (lib/memory-retention.ts)
+        saveConversationHistory: saveConversationHistory
       }, { merge: true });
       
       setSaveMessage('Preferences saved successfully!');
@@ -297,14 +301,31 @@ export default function DashboardPage() {
                 <p className="text-gray-600 text-sm mb-4">Control your data and privacy settings</p>
                 <div className="space-y-3">
                   <label className="flex items-center space-x-2">
-                    <input type="checkbox" className="rounded text-[#2C74B3] focus:ring-[#2C74B3] opacity-50 cursor-not-allowed" defaultChecked disabled />
-                    <span className="text-sm text-gray-500">Save conversation history</span>
+                    <input
+                      type="checkbox"
+                      checked={saveConversationHistory}
+                      onChange={(e) => setSaveConversationHistory(e.target.checked)}
+                      className="rounded text-[#2C74B3] focus:ring-[#2C74B3]"
+                    />
+                    <span className="text-sm text-gray-700">Save conversation history</span>
                   </label>
+                  {!saveConversationHistory && (
+                    <p className="text-xs text-gray-500">
+                      Your conversations, call summaries and the facts Alex learned from them will be deleted within a day. Things you asked Alex to remember, and pinned memories, are kept.
+                    </p>
+                  )}
                   <label className="flex items-center space-x-2">
                     <input type="checkbox" className="rounded text-[#2C74B3] focus:ring-[#2C74B3] opacity-50 cursor-not-allowed" defaultChecked disabled />
                     <span className="text-sm text-gray-500">Improve AI responses</span>
                   </label>
                 </div>
+                <button
+                  onClick={() => router.push('/memories')}
+                  className="mt-4 flex items-center gap-2 text-sm font-medium text-[#2C74B3] hover:text-[#205295] transition-colors"
+                >
+                  <Brain className="w-4 h-4" />
+                  See what Alex remembers
+                </button>
               </div>
             </div>
 
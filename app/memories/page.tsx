@@ -0,0 +1,548 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { auth } from '../../lib/firebase';
+import UserDropdown from '../../components/UserDropdown';
+import { ArrowLeft, Brain, Search, Trash2, Pencil, Check, X, Loader2, Pin, PinOff, Download } from 'lucide-react';
+
+interface MemoryEntry {
+  id: string;
+  text: string;
+  speaker: string;
+  callId: string;
+  type: 'utterance' | 'conversation' | 'summary' | 'note';
+  timestamp: string;
+  score: number;
+  importance: number;
+  pinned: boolean;
+}
+
+interface CallGroup {
+  callId: string;
+  date: Date;
+  memories: MemoryEntry[];
+}
+
+type KindFilter = 'all' | 'note' | 'user' | 'agent' | 'summary' | 'conversation';
+
+// Request filters for each option of the "Show" select
+const KIND_FILTERS: Record<KindFilter, { label: string; speaker?: string; types?: MemoryEntry['type'][] }> = {
+  all: { label: 'Everything' },
+  note: { label: 'Things you asked Alex to remember', types: ['note'] },
+  user: { label: 'Things you said', speaker: 'user', types: ['utterance'] },
+  agent: { label: 'Things Alex said', speaker: 'agent', types: ['utterance'] },
+  summary: { label: 'Call summaries', types: ['summary'] },
+  conversation: { label: 'Conversation excerpts', types: ['conversation'] },
+};
+
+const PAGE_SIZE = 50;
+
+const speakerLabel = (memory: MemoryEntry) => {
+  if (memory.type === 'note') return 'You asked Alex to remember';
+  if (memory.type === 'summary') return 'Call summary';
+  if (memory.type === 'conversation') return 'Conversation excerpt';
+  if (memory.speaker === 'user') return 'You';
+  if (memory.speaker === 'agent') return 'Alex';
+  return memory.speaker;
+};
+
+/**
+ * Group memories by call, newest call first
+ */
+const groupByCall = (memories: MemoryEntry[]): CallGroup[] => {
+  const groups = new Map<string, CallGroup>();
+  memories.forEach((memory) => {
+    const date = new Date(memory.timestamp);
+    const group = groups.get(memory.callId);
+    if (group) {
+      group.memories.push(memory);
+      if (date > group.date) group.date = date;
+    } else {
+      groups.set(memory.callId, { callId: memory.callId, date, memories: [memory] });
+    }
+  });
+  return Array.from(groups.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+};
+
+export default function MemoriesPage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [memories, setMemories] = useState<MemoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loadingMemories, setLoadingMemories] = useState(false);
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<MemoryEntry[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+      if (currentUser) {
+        setUser(currentUser);
+      } else {
+        router.push('/');
+      }
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [router]);
+
+  useEffect(() => {
+    if (user) {
+      loadMemories();
+    }
+    // Reload from the first page whenever the filters change
+  }, [user, kind, fromDate, toDate]);
+
+  const callMemoryApi = async (body: Record<string, unknown>) => {
+    const idToken = await auth.currentUser?.getIdToken();
+    const res = await fetch('/api/vector-memory', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`
+      },
+      body: JSON.stringify(body)
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data?.error || 'Request failed');
+    }
+    return data;
+  };
+
+  // Download all memories as a Markdown journal or JSON Lines (can be imported again)
+  const handleExport = async (format: 'markdown' | 'jsonl') => {
+    setExporting(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const res = await fetch('/api/vector-memory', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`
+        },
+        body: JSON.stringify({ action: 'export', format })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Export failed');
+      }
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `alex-memories.${format === 'markdown' ? 'md' : 'jsonl'}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting memories:', err);
+      alert('Failed to export memories');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const loadMemories = async (cursor?: string) => {
+    setLoadingMemories(true);
+    try {
+      const filter = KIND_FILTERS[kind];
+      const data = await callMemoryApi({
+        action: 'list',
+        limit: PAGE_SIZE,
+        cursor,
+        speaker: filter.speaker,
+        types: filter.types,
+        // Date inputs are local calendar days; "to" includes the whole day
+        from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+        to: toDate ? new Date(new Date(`${toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined,
+      });
+      setMemories(prev => cursor ? [...prev, ...data.memories] : data.memories);
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error('Error loading memories:', err);
+      alert('Failed to load memories');
+    } finally {
+      setLoadingMemories(false);
+    }
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const data = await callMemoryApi({ action: 'find', queryText: searchQuery.trim() });
+      setSearchResults(data.memories);
+    } catch (err) {
+      console.error('Error searching memories:', err);
+      alert('Failed to search memories');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchResults(null);
+  };
+
+  // Apply a change to both the browsed list and the current search results
+  const updateLocal = (update: (list: MemoryEntry[]) => MemoryEntry[]) => {
+    setMemories(update);
+    setSearchResults(prev => prev ? update(prev) : prev);
+  };
+
+  const handleDelete = async (memory: MemoryEntry) => {
+    if (!confirm('Delete this memory? Alex will no longer remember it.')) {
+      return;
+    }
+
+    setBusyId(memory.id);
+    try {
+      await callMemoryApi({ action: 'delete', memoryId: memory.id });
+      updateLocal(list => list.filter(m => m.id !== memory.id));
+      setTotal(prev => Math.max(prev - 1, 0));
+    } catch (err) {
+      console.error('Error deleting memory:', err);
+      alert('Failed to delete memory');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteCall = async (group: CallGroup) => {
+    if (!confirm(`Delete everything Alex remembers from the call on ${group.date.toLocaleDateString()}? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusyId(group.callId);
+    try {
+      const data = await callMemoryApi({ action: 'deleteCall', callId: group.callId });
+      updateLocal(list => list.filter(m => m.callId !== group.callId));
+      setTotal(prev => Math.max(prev - data.deletedCount, 0));
+    } catch (err) {
+      console.error('Error deleting call memories:', err);
+      alert('Failed to delete call memories');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTogglePin = async (memory: MemoryEntry) => {
+    setBusyId(memory.id);
+    try {
+      const data = await callMemoryApi({ action: memory.pinned ? 'unpin' : 'pin', memoryId: memory.id });
+      updateLocal(list => list.map(m => m.id === memory.id ? { ...m, pinned: data.memory.pinned } : m));
+    } catch (err) {
+      console.error('Error pinning memory:', err);
+      alert('Failed to update pin');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEditing = (memory: MemoryEntry) => {
+    setEditingId(memory.id);
+    setEditText(memory.text);
+  };
+
+  const handleSaveEdit = async (memory: MemoryEntry) => {
+    if (!editText.trim()) {
+      alert('A memory cannot be empty. Delete it instead.');
+      return;
+    }
+
+    setBusyId(memory.id);
+    try {
+      const data = await callMemoryApi({ action: 'update', memoryId: memory.id, text: editText.trim() });
+      updateLocal(list => list.map(m => m.id === memory.id ? { ...m, text: data.memory.text } : m));
+      setEditingId(null);
+    } catch (err) {
+      console.error('Error updating memory:', err);
+      alert('Failed to update memory');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const groups = useMemo(() => groupByCall(searchResults ?? memories), [searchResults, memories]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-[#0A2647] via-[#144272] to-[#205295] flex items-center justify-center">
+        <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-gray-200 rounded w-3/4"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            <div className="h-32 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0A2647] via-[#144272] to-[#205295]">
+      {/* Header */}
+      <header className="bg-black/10 backdrop-blur-sm">
+        <nav className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="p-2 text-white hover:text-blue-200 transition-colors rounded-full hover:bg-white/10"
+                title="Back to Dashboard"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <img
+                src="https://storage.googleapis.com/msgsndr/JBLl8rdfV29DRcGjQ7Rl/media/67f5c2c30a6217bf61d1eb90.png"
+                alt="VoiceAI Logo"
+                className="h-12 logo-white"
+              />
+              <h1 className="text-xl font-semibold text-white">What Alex Remembers</h1>
+            </div>
+            <UserDropdown user={user} />
+          </div>
+        </nav>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Search and filters */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8">
+          <div className="flex items-center space-x-3 mb-2">
+            <Brain className="w-6 h-6 text-[#2C74B3]" />
+            <h2 className="text-2xl font-bold text-[#0A2647]">Your Memories</h2>
+          </div>
+          <p className="text-gray-600 text-sm mb-6">
+            Alex uses these memories to pick up where your last conversations left off.
+            You can correct anything that is wrong, or delete what you don&apos;t want Alex to remember.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 -mt-3 mb-6 text-sm">
+            <span className="text-gray-600">Download a copy:</span>
+            <button
+              onClick={() => handleExport('markdown')}
+              disabled={exporting}
+              className="flex items-center gap-1 text-[#2C74B3] hover:text-[#205295] disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" /> Journal (Markdown)
+            </button>
+            <button
+              onClick={() => handleExport('jsonl')}
+              disabled={exporting}
+              className="flex items-center gap-1 text-[#2C74B3] hover:text-[#205295] disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" /> Data (JSON Lines)
+            </button>
+          </div>
+
+          <form onSubmit={handleSearch} className="flex gap-3 mb-4">
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search, e.g. &quot;my sister's visit&quot;"
+              className="input-glass flex-1 px-4 py-2 border border-gray-300/50 rounded-xl focus:ring-2 focus:ring-[#2C74B3] focus:border-transparent text-gray-800 bg-white/80"
+            />
+            <button
+              type="submit"
+              disabled={searching}
+              className="btn-glass flex items-center gap-2 px-4 py-2 bg-[#2C74B3]/80 text-white rounded-xl hover:bg-[#205295]/80 transition-colors disabled:opacity-50"
+            >
+              {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              Search
+            </button>
+          </form>
+
+          {searchResults ? (
+            <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg text-sm text-[#0A2647]">
+              <span>{searchResults.length} memories related to &quot;{searchQuery}&quot;</span>
+              <button onClick={clearSearch} className="flex items-center gap-1 text-[#2C74B3] hover:text-[#205295]">
+                <X className="w-4 h-4" /> Clear search
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="text-sm text-gray-700">
+                Show
+                <select
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as KindFilter)}
+                  className="input-glass mt-1 w-full p-2 border border-gray-300/50 rounded-xl text-gray-800 bg-white/80"
+                >
+                  {(Object.keys(KIND_FILTERS) as KindFilter[]).map(key => (
+                    <option key={key} value={key}>{KIND_FILTERS[key].label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                From
+                <input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="input-glass mt-1 w-full p-2 border border-gray-300/50 rounded-xl text-gray-800 bg-white/80"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                To
+                <input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="input-glass mt-1 w-full p-2 border border-gray-300/50 rounded-xl text-gray-800 bg-white/80"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
+        {/* Memories grouped by call */}
+        {loadingMemories && memories.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 text-white animate-spin" />
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-xl p-8 text-center text-gray-600">
+            {searchResults ? 'No matching memories.' : 'Alex doesn’t remember anything yet. Memories appear here after your calls.'}
+          </div>
+        ) : (
+          groups.map(group => (
+            <div key={group.callId} className="bg-white rounded-2xl shadow-xl p-6">
+              <div className="flex justify-between items-center mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-[#0A2647]">
+                    {group.date.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    Call at {group.date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })} &middot; {group.memories.length} {group.memories.length === 1 ? 'memory' : 'memories'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeleteCall(group)}
+                  disabled={busyId === group.callId}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" /> Delete call
+                </button>
+              </div>
+
+              <ul className="space-y-3">
+                {group.memories.map(memory => (
+                  <li key={memory.id} className={`p-4 rounded-lg ${memory.pinned ? 'bg-blue-50 ring-1 ring-[#2C74B3]/30' : 'bg-gray-50'}`}>
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-xs font-semibold text-[#2C74B3] mb-1">
+                          {speakerLabel(memory)}
+                          <span className="font-normal text-gray-400 ml-2">
+                            {new Date(memory.timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                          </span>
+                          {memory.pinned && (
+                            <span className="ml-2 inline-flex items-center gap-1 font-normal text-[#2C74B3]">
+                              <Pin className="w-3 h-3" /> Always remembered
+                            </span>
+                          )}
+                        </div>
+                        {editingId === memory.id ? (
+                          <textarea
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            rows={3}
+                            className="input-glass w-full p-2 border border-gray-300/50 rounded-xl focus:ring-2 focus:ring-[#2C74B3] focus:border-transparent text-gray-800 bg-white/80"
+                          />
+                        ) : (
+                          <p className="text-gray-800 text-sm whitespace-pre-line break-words">{memory.text}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {editingId === memory.id ? (
+                          <>
+                            <button
+                              onClick={() => handleSaveEdit(memory)}
+                              disabled={busyId === memory.id}
+                              className="p-1 text-green-600 hover:text-green-800 disabled:opacity-50"
+                              title="Save correction"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              className="p-1 text-gray-500 hover:text-gray-700"
+                              title="Cancel"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => handleTogglePin(memory)}
+                              disabled={busyId === memory.id}
+                              className="p-1 text-gray-500 hover:text-[#2C74B3] disabled:opacity-50"
+                              title={memory.pinned ? 'Unpin' : 'Pin: Alex always keeps this in mind'}
+                            >
+                              {memory.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() => startEditing(memory)}
+                              className="p-1 text-gray-500 hover:text-[#2C74B3]"
+                              title="Correct this memory"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(memory)}
+                              disabled={busyId === memory.id}
+                              className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                              title="Delete this memory"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+
+        {!searchResults && nextCursor && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => loadMemories(nextCursor)}
+              disabled={loadingMemories}
+              className="btn-glass bg-white/20 text-white px-6 py-3 rounded-xl hover:bg-white/30 transition-colors font-medium disabled:opacity-50"
+            >
+              {loadingMemories ? 'Loading...' : `Load more (${memories.length} of ${total})`}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
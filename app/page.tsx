@@ -10,6 +10,37 @@ import AuthModals from '../components/AuthModals';
 import UserDropdown from '../components/UserDropdown';
 import { Mic, MicOff, Radio, PhoneOff } from 'lucide-react';
 
+// Attempts for memory writes that fail on the network or with a server error
+const MEMORY_WRITE_ATTEMPTS = 3;
+
+/**
+ * Send a memory write (store / summarize) for the signed-in user to the server, retrying network
+ * and server errors with exponential backoff. Writes the server could not complete itself are queued there for
+ * retry (202), so those count as delivered.
+ */
+async function postMemoryWrite(body: Record<string, unknown>): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    let retryable = true;
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const res = await fetch('/api/vector-memory', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify(body),
+      });
+      if (res.ok) return;
+      retryable = res.status >= 500;
+      throw new Error(`Memory write failed with status ${res.status}`);
+    } catch (err) {
+      if (!retryable || attempt >= MEMORY_WRITE_ATTEMPTS) throw err;
+      await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt - 1)));
+    }
+  }
+}
+
 export default function HomePage() {
   const [session, setSession] = useState<UltravoxSession | null>(null);
   const [transcripts, setTranscripts] = useState<Array<{ speaker: string; text: string }>>([]);
@@ -38,6 +69,8 @@ export default function HomePage() {
   const walletLoggedRef = useRef<boolean>(false);
   const previousStatusRef = useRef<string>('disconnected');
   const lastActiveStatusRef = useRef<string | null>(null);
+  // Topics the user asked Alex to forget during the current call
+  const forgetPhrasesRef = useRef<string[]>([]);
 
   const refreshUserStats = async () => {
     if (user) {
@@ -63,6 +96,7 @@ export default function HomePage() {
     walletLoggedRef.current = false;
     previousStatusRef.current = 'disconnected';
     lastActiveStatusRef.current = null;
+    forgetPhrasesRef.current = [];
   };
 
   const handleHomeClick = (e: React.MouseEvent) => {
@@ -236,19 +270,11 @@ export default function HomePage() {
 
       // Store in vector memory for semantic search (via API route)
       try {
-        await fetch('/api/vector-memory', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            userId: user.uid,
-            callId: callIdRef.current,
-            transcripts: transcriptData,
-            action: 'store',
-          }),
-        }).catch(err => {
-          console.error('Failed to store in vector memory (non-critical):', err);
+        await postMemoryWrite({
+          userId: user.uid,
+          callId: callIdRef.current,
+          transcripts: transcriptData,
+          action: 'store',
         });
       } catch (vectorError) {
         console.error('Failed to store in vector memory (non-critical):', vectorError);
@@ -259,6 +285,102 @@ export default function HomePage() {
     }
   };
 
+  const summarizeCallMemory = (transcriptData: Array<{ speaker: string; text: string }>) => {
+    if (!user || !callIdRef.current) {
+      return;
+    }
+
+    // Generate a post-call summary on the server (non-blocking)
+    postMemoryWrite({
+      userId: user.uid,
+      callId: callIdRef.current,
+      transcripts: transcriptData,
+      forgetPhrases: forgetPhrasesRef.current,
+      action: 'summarize',
+    }).catch(err => {
+      console.error('Failed to summarize call (non-critical):', err);
+    });
+  };
+
+  // Authenticated memory action for the signed-in user
+  const callMemoryAction = async (body: Record<string, unknown>) => {
+    const idToken = await auth.currentUser?.getIdToken();
+    const res = await fetch('/api/vector-memory', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data?.error || 'Memory request failed');
+    }
+    return data;
+  };
+
+  // Client tool: "remember that my appointment is Tuesday"
+  const rememberThisTool = async (parameters: { memory?: string }): Promise<string> => {
+    const text = (parameters?.memory || '').trim();
+    if (!text) {
+      return 'No memory was given. Ask the user what they would like you to remember.';
+    }
+
+    try {
+      await callMemoryAction({ action: 'remember', text, callId: callIdRef.current });
+      return `Saved to memory: "${text}". Confirm to the user in one short sentence what you will remember.`;
+    } catch (error) {
+      console.error('rememberThis tool failed:', error);
+      return 'Saving the memory failed. Tell the user you could not save it right now.';
+    }
+  };
+
+  // Client tool: "please forget what I said about my ex"
+  const forgetThatTool = async (parameters: { topic?: string }): Promise<string> => {
+    const topic = (parameters?.topic || '').trim();
+    if (!topic) {
+      return 'No topic was given. Ask the user what they would like you to forget.';
+    }
+
+    try {
+      const data = await callMemoryAction({ action: 'forget', phrase: topic });
+      // Also applied to this call's summary and final transcript when the call ends
+      forgetPhrasesRef.current.push(topic);
+      const count = (data.forgotten?.length || 0) + (data.forgottenFacts?.length || 0);
+      return count > 0
+        ? `Forgot ${count} ${count === 1 ? 'memory' : 'memories'} about "${topic}". Confirm to the user that you will no longer remember what they said about ${topic}.`
+        : `No earlier memories about "${topic}" were found; what was said about it in this call will not be kept. Confirm this to the user.`;
+    } catch (error) {
+      console.error('forgetThat tool failed:', error);
+      return 'Forgetting failed. Tell the user you could not do it right now and that they can delete memories on the "What Alex remembers" page.';
+    }
+  };
+
+  // Client tool: "do you remember when I told you about...?"
+  const recallMemoryTool = async (parameters: { query?: string }): Promise<string> => {
+    const query = (parameters?.query || '').trim();
+    if (!query) {
+      return 'No query was given. Ask the user what they would like you to remember.';
+    }
+
+    try {
+      const data = await callMemoryAction({
+        action: 'recall',
+        queryText: query,
+        callId: callIdRef.current,
+        userName: userFirstNameRef.current || undefined,
+      });
+      const snippets: string[] = data.snippets || [];
+      return snippets.length > 0
+        ? `Memories from earlier calls about "${query}", most relevant first:\n${snippets.map(snippet => `- ${snippet}`).join('\n')}\nUse only what answers the user; do not read the list out.`
+        : `No memories about "${query}" were found. Tell the user honestly that you don't remember, and ask them to tell you again.`;
+    } catch (error) {
+      console.error('recallMemory tool failed:', error);
+      return 'Looking up memories failed. Tell the user you cannot remember right now and ask them to remind you.';
+    }
+  };
+
   const ensureAlexEthnicityField = async (userId: string) => {
     try {
       const userRef = doc(db, 'users', userId);
@@ -311,17 +433,14 @@ export default function HomePage() {
       walletBalance: currentWalletBalance
     });
 
-    // Create a query for vector search based on user's name and context
-    // This helps retrieve semantically relevant memories
-    const conversationQuery = firstName 
-      ? `Conversation with ${firstName} about their life and experiences`
-      : 'Previous conversations and context';
-
-    // Call our local API route instead of Ultravox directly
+    // Call our local API route instead of Ultravox directly; the ID token identifies the user
+    // whose memories and facts go into the call context
+    const idToken = await auth.currentUser?.getIdToken();
     const response = await fetch('/api/ultravox-call', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`,
       },
       body: JSON.stringify({
         firstName: firstName || 'User',
@@ -330,9 +449,7 @@ export default function HomePage() {
         userLocation: userLocation || 'Unknown Location',
         totalCalls: totalCalls || 0,
         alexEthnicity: alexEthnicity,
-        walletBalance: currentWalletBalance, // Pass wallet balance from client
-        userId: userId, // Pass userId for vector memory lookup
-        conversationQuery: conversationQuery // Query for semantic search
+        walletBalance: currentWalletBalance // Pass wallet balance from client
       }),
     });
 
@@ -400,6 +517,13 @@ export default function HomePage() {
       );
 
       const uvSession = new UltravoxSession();
+
+      // In-call memory commands; the tools are declared on the Ultravox agents (see docs/VECTOR_MEMORY.md)
+      uvSession.registerToolImplementations({
+        rememberThis: rememberThisTool,
+        forgetThat: forgetThatTool,
+        recallMemory: recallMemoryTool,
+      });
       
       const urlParams = new URL(data.joinUrl).searchParams;
       const callId = urlParams.get('call_id') || `call_${Date.now()}`;
@@ -499,6 +623,7 @@ export default function HomePage() {
       const handleCallCleanup = async () => {
         if (currentTranscriptsRef.current.length > 0 && user) {
           await saveCallMemory(currentTranscriptsRef.current);
+          summarizeCallMemory(currentTranscriptsRef.current);
         }
         
         setTimeout(() => {
@@ -0,0 +1,42 @@
+/**
+ * Split items into consecutive groups of at most `size`
+ */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const groups: T[][] = [];
+  const step = Math.max(1, Math.floor(size));
+  for (let i = 0; i < items.length; i += step) {
+    groups.push(items.slice(i, i + step));
+  }
+  return groups;
+}
+
+/**
+ * Map over items with at most `limit` calls in flight; results keep input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Read a positive integer from an environment variable, with a default
+ */
+export function envInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
@@ -0,0 +1,127 @@
+import { getOpenAIClient } from './openai';
+import { getCircuitBreaker } from './circuit-breaker';
+import { storeMemories, buildMemoryId } from './vector-memory';
+import { redactTranscripts } from './pii-redaction';
+
+export interface CallSummary {
+  summary: string;
+  topics: string[];
+  people: string[];
+  emotionalTone: string;
+  /** Things Alex promised to follow up on in a later call */
+  followUps: string[];
+}
+
+const SUMMARY_MODEL = process.env.SUMMARY_MODEL || 'gpt-4o-mini';
+
+const SUMMARY_PROMPT = `You summarize phone conversations between a user and Alex, a caring AI companion, so Alex can remember them in later calls.
+Return a JSON object with these fields:
+- "summary": 2-4 sentences on what the user talked about, written in the third person ("The user ...")
+- "topics": short topic labels
+- "people": names or roles of people the user mentioned (e.g. "Maria (sister)")
+- "emotionalTone": one short phrase describing how the user seemed to feel
+- "followUps": things Alex promised or should ask about next time
+Use empty arrays when there is nothing to report. Do not invent details.`;
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+/**
+ * Generate a structured summary of a call transcript with an LLM
+ */
+export async function generateCallSummary(
+  transcripts: Array<{ speaker: string; text: string }>,
+  omitTopics: string[] = []
+): Promise<CallSummary> {
+  try {
+    // Masked before it reaches the model, like fact extraction
+    const conversation = (await redactTranscripts(transcripts))
+      .filter(t => t.text.trim())
+      .map(t => `${t.speaker === 'agent' ? 'Alex' : t.speaker === 'user' ? 'User' : t.speaker}: ${t.text}`)
+      .join('\n');
+
+    const response = await getCircuitBreaker('openai').run(() => getOpenAIClient().chat.completions.create({
+      model: SUMMARY_MODEL,
+      response_format: { type: 'json_object' },
+      temperature: 0.2,
+      messages: [
+        {
+          role: 'system',
+          content: omitTopics.length > 0
+            ? `${SUMMARY_PROMPT}\nThe user asked Alex to forget these topics; leave them out entirely: ${omitTopics.join('; ')}`
+            : SUMMARY_PROMPT,
+        },
+        { role: 'user', content: conversation },
+      ],
+    }));
+
+    const parsed = JSON.parse(response.choices[0]?.message?.content || '{}');
+    return {
+      summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '',
+      topics: toStringArray(parsed.topics),
+      people: toStringArray(parsed.people),
+      emotionalTone: typeof parsed.emotionalTone === 'string' ? parsed.emotionalTone.trim() : '',
+      followUps: toStringArray(parsed.followUps),
+    };
+  } catch (error) {
+    console.error('Error generating call summary:', error);
+    throw error;
+  }
+}
+
+/**
+ * Render a summary as the text that is embedded and shown in call context
+ */
+export function formatCallSummary(summary: CallSummary): string {
+  const lines = [summary.summary];
+  if (summary.topics.length > 0) lines.push(`Topics: ${summary.topics.join(', ')}`);
+  if (summary.people.length > 0) lines.push(`People mentioned: ${summary.people.join(', ')}`);
+  if (summary.emotionalTone) lines.push(`Emotional tone: ${summary.emotionalTone}`);
+  if (summary.followUps.length > 0) lines.push(`Follow-ups: ${summary.followUps.join('; ')}`);
+  return lines.join('\n');
+}
+
+/**
+ * Summarize a finished call and store the summary as an episodic memory.
+ * There is one summary per call; summarizing again replaces it.
+ */
+export async function summarizeCall(
+  userId: string,
+  callId: string,
+  transcripts: Array<{ speaker: string; text: string }>,
+  omitTopics: string[] = []
+): Promise<CallSummary | null> {
+  try {
+    // Nothing worth summarizing if the user never spoke
+    if (!transcripts.some(t => t.speaker === 'user' && t.text.trim())) {
+      return null;
+    }
+
+    const summary = await generateCallSummary(transcripts, omitTopics);
+    if (!summary.summary) {
+      return null;
+    }
+
+    await storeMemories(userId, callId, [{
+      // Fixed position and hash per call, so a re-run overwrites the previous summary
+      memoryId: buildMemoryId(userId, callId, 'summary', callId),
+      text: formatCallSummary(summary),
+      type: 'summary',
+      speaker: 'summary',
+      callId,
+      timestamp: new Date(),
+      extraMetadata: {
+        topics: summary.topics,
+        people: summary.people,
+        emotionalTone: summary.emotionalTone,
+        followUps: summary.followUps,
+      },
+    }]);
+
+    console.log('Call summary stored:', callId);
+    return summary;
+  } catch (error) {
+    console.error('Error summarizing call:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,131 @@
+export interface TranscriptLine {
+  speaker: string;
+  text: string;
+}
+
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+  speakers: string[];
+  /** First and last transcript line covered by this chunk */
+  startLine: number;
+  endLine: number;
+}
+
+export interface ChunkOptions {
+  /** Maximum characters per chunk (speaker labels included) */
+  maxChars?: number;
+  /** Approximate number of trailing characters repeated at the start of the next chunk */
+  overlapChars?: number;
+}
+
+interface Segment {
+  line: number;
+  speaker: string;
+  text: string;
+}
+
+/**
+ * Split text into pieces of at most maxChars, preferring sentence and then word boundaries
+ */
+function splitLongText(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+
+  const pushWords = (sentence: string) => {
+    sentence.split(/\s+/).filter(Boolean).forEach((word) => {
+      if (current && current.length + 1 + word.length > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      // A single word longer than maxChars is hard-split
+      while (word.length > maxChars) {
+        pieces.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+      }
+      current = current ? `${current} ${word}` : word;
+    });
+  };
+
+  sentences.forEach((raw) => {
+    const sentence = raw.trim();
+    if (!sentence) return;
+    if (current && current.length + 1 + sentence.length <= maxChars) {
+      current = `${current} ${sentence}`;
+    } else if (sentence.length <= maxChars) {
+      if (current) pieces.push(current);
+      current = sentence;
+    } else {
+      pushWords(sentence);
+    }
+  });
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+const formatSegment = (segment: Segment) => `${segment.speaker}: ${segment.text}`;
+
+/**
+ * Split a transcript into overlapping, speaker-aware windows.
+ * Windows break between turns and every line keeps its speaker label;
+ * a single turn longer than maxChars is split at sentence boundaries.
+ */
+export function chunkTranscript(
+  lines: TranscriptLine[],
+  options: ChunkOptions = {}
+): TranscriptChunk[] {
+  const maxChars = options.maxChars ?? 1200;
+  const overlapChars = options.overlapChars ?? 200;
+
+  // Expand transcript lines into segments that each fit in a chunk
+  const segments: Segment[] = [];
+  lines.forEach((line, lineIndex) => {
+    const text = line.text.trim();
+    if (!text) return;
+    const labelLength = line.speaker.length + 2;
+    splitLongText(text, Math.max(maxChars - labelLength, 1)).forEach((piece) => {
+      segments.push({ line: lineIndex, speaker: line.speaker, text: piece });
+    });
+  });
+
+  const chunks: TranscriptChunk[] = [];
+  let start = 0;
+
+  while (start < segments.length) {
+    // Grow the window while it fits
+    let end = start;
+    let length = formatSegment(segments[start]).length;
+    while (end + 1 < segments.length && length + 1 + formatSegment(segments[end + 1]).length <= maxChars) {
+      end++;
+      length += 1 + formatSegment(segments[end]).length;
+    }
+
+    const window = segments.slice(start, end + 1);
+    chunks.push({
+      index: chunks.length,
+      text: window.map(formatSegment).join('\n'),
+      speakers: Array.from(new Set(window.map((s) => s.speaker))),
+      startLine: window[0].line,
+      endLine: window[window.length - 1].line,
+    });
+
+    if (end + 1 >= segments.length) break;
+
+    // Step back over trailing segments that fit in the overlap, always moving forward
+    // and leaving room for the next new segment in the following window
+    const nextLength = formatSegment(segments[end + 1]).length;
+    let next = end + 1;
+    let overlap = 0;
+    while (next - 1 > start) {
+      const previousLength = formatSegment(segments[next - 1]).length + 1;
+      if (overlap + previousLength > overlapChars || overlap + previousLength + nextLength > maxChars) break;
+      next--;
+      overlap += previousLength;
+    }
+    start = next;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,133 @@
+import { envInt } from './batching';
+
+/**
+ * Circuit breakers around the external clients (OpenAI, Pinecone).
+ * After CIRCUIT_BREAKER_THRESHOLD consecutive transient failures (default 5) a circuit opens and
+ * calls fail immediately for CIRCUIT_BREAKER_COOLDOWN_MS (default 30s) instead of piling up on a
+ * service that is down. The next call after the cool-down is a trial: success closes the circuit,
+ * failure opens it again. Calls made while the trial runs are rejected like in the open state.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When an open circuit lets the next trial call through */
+  retryAt: Date | null;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+}
+
+export interface CircuitBreaker {
+  readonly name: string;
+  run<T>(fn: () => Promise<T>): Promise<T>;
+  status(): CircuitStatus;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, readonly retryAt: Date) {
+    super(`${name} is unavailable (circuit open until ${retryAt.toISOString()})`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Checked by name: instanceof is unreliable for Error subclasses compiled to ES5
+export function isCircuitOpenError(error: unknown): error is CircuitOpenError {
+  return !!error && (error as Error).name === 'CircuitOpenError';
+}
+
+/**
+ * Whether an error says the service is struggling (as opposed to a bad request, which
+ * would fail again whatever the state of the service)
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status >= 500 || status === 408 || status === 429;
+  }
+  const name = (error as Error)?.name || '';
+  return !/(BadRequest|NotFound|Conflict|Authorization|ArgumentError)/.test(name);
+}
+
+function createCircuitBreaker(name: string): CircuitBreaker {
+  let consecutiveFailures = 0;
+  let openedUntil: number | null = null;
+  let lastError: string | null = null;
+  let lastFailureAt: Date | null = null;
+  // A half-open circuit lets one call through at a time
+  let trialRunning = false;
+
+  const state = (): CircuitState => {
+    if (openedUntil === null) return 'closed';
+    return Date.now() < openedUntil ? 'open' : 'half-open';
+  };
+
+  return {
+    name,
+
+    async run(fn) {
+      const current = state();
+      if (current === 'open') {
+        throw new CircuitOpenError(name, new Date(openedUntil!));
+      }
+      if (current === 'half-open' && trialRunning) {
+        // Retry once the trial has settled the state
+        throw new CircuitOpenError(name, new Date());
+      }
+
+      const isTrial = current === 'half-open';
+      if (isTrial) trialRunning = true;
+      try {
+        const result = await fn();
+        consecutiveFailures = 0;
+        openedUntil = null;
+        return result;
+      } catch (error) {
+        if (isTransientError(error)) {
+          consecutiveFailures++;
+          lastError = (error as Error)?.message || String(error);
+          lastFailureAt = new Date();
+          // A failed trial reopens at once
+          if (state() === 'half-open' || consecutiveFailures >= envInt('CIRCUIT_BREAKER_THRESHOLD', 5)) {
+            openedUntil = Date.now() + envInt('CIRCUIT_BREAKER_COOLDOWN_MS', 30000);
+            console.error(`Circuit ${name} opened after ${consecutiveFailures} failures: ${lastError}`);
+          }
+        }
+        throw error;
+      } finally {
+        if (isTrial) trialRunning = false;
+      }
+    },
+
+    status() {
+      return {
+        name,
+        state: state(),
+        consecutiveFailures,
+        retryAt: openedUntil !== null ? new Date(openedUntil) : null,
+        lastError,
+        lastFailureAt,
+      };
+    },
+  };
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * The breaker for an external service (one per service and server instance)
+ */
+export function getCircuitBreaker(name: 'openai' | 'pinecone'): CircuitBreaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = createCircuitBreaker(name);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+export function getCircuitStatuses(): CircuitStatus[] {
+  return Array.from(breakers.values()).map(breaker => breaker.status());
+}
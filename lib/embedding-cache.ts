@@ -0,0 +1,260 @@
+import { createHash } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from './firebase-admin';
+import { chunkArray, envInt } from './batching';
+import type { EmbeddingProvider } from './embeddings';
+
+/**
+ * Embedding cache keyed by a hash of the embedding version and the text, so repeated texts
+ * (search queries, transcript lines that are stored again) are embedded once.
+ * Two tiers: an LRU in process, and optionally Firestore `embeddingCache/{key}`
+ * (EMBEDDING_CACHE_FIRESTORE=true), shared across server instances.
+ */
+
+export interface EmbeddingCacheCounts {
+  /** Texts looked up */
+  lookups: number;
+  memoryHits: number;
+  firestoreHits: number;
+  /** Texts that had to be embedded */
+  misses: number;
+  /** Estimated tokens not sent to the embedding API */
+  savedTokens: number;
+  /** Estimated savings in USD, from OPENAI_EMBEDDING_PRICES */
+  savedCostUsd: number;
+}
+
+export interface EmbeddingCacheStats {
+  /** This server instance since it started */
+  process: EmbeddingCacheCounts & { hitRate: number; entries: number; maxEntries: number };
+  /** All instances, from Firestore `system/embeddingCacheStats` (null without Firebase Admin) */
+  total: (EmbeddingCacheCounts & { hitRate: number; updatedAt: Date | null }) | null;
+  firestoreTier: boolean;
+}
+
+// USD per million input tokens
+const OPENAI_EMBEDDING_PRICES: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.1,
+};
+
+// Counters are added to Firestore at most this often per instance
+const STATS_FLUSH_INTERVAL_MS = 60 * 1000;
+
+// Documents per Firestore read or write batch (vectors are large)
+const FIRESTORE_BATCH_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyCounts = (): EmbeddingCacheCounts => ({
+  lookups: 0,
+  memoryHits: 0,
+  firestoreHits: 0,
+  misses: 0,
+  savedTokens: 0,
+  savedCostUsd: 0,
+});
+
+const hitRate = (counts: EmbeddingCacheCounts) =>
+  (counts.lookups > 0 ? (counts.memoryHits + counts.firestoreHits) / counts.lookups : 0);
+
+// Map iteration order is insertion order: the first key is the least recently used
+const memoryCache = new Map<string, number[]>();
+const processCounts = emptyCounts();
+let pendingCounts = emptyCounts();
+let lastFlush = Date.now();
+
+const maxEntries = () => envInt('EMBEDDING_CACHE_SIZE', 2000);
+
+function firestoreTierEnabled(): boolean {
+  return process.env.EMBEDDING_CACHE_FIRESTORE === 'true' && adminDb !== null;
+}
+
+/**
+ * Near-identical texts (differing only in whitespace or Unicode normalization) share an entry
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function embeddingCacheKey(version: string, text: string): string {
+  return createHash('sha256').update(`${version}\n${normalizeText(text)}`).digest('hex');
+}
+
+function getFromMemory(key: string): number[] | undefined {
+  const vector = memoryCache.get(key);
+  if (vector) {
+    // Move to the most recently used end
+    memoryCache.delete(key);
+    memoryCache.set(key, vector);
+  }
+  return vector;
+}
+
+function setInMemory(key: string, vector: number[]): void {
+  memoryCache.delete(key);
+  memoryCache.set(key, vector);
+  const limit = maxEntries();
+  while (memoryCache.size > limit) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+async function getFromFirestore(keys: string[]): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  if (!firestoreTierEnabled() || keys.length === 0) return found;
+
+  for (const group of chunkArray(keys, FIRESTORE_BATCH_SIZE)) {
+    const snapshots = await adminDb!.getAll(...group.map(key => adminDb!.collection('embeddingCache').doc(key)));
+    snapshots.forEach((snapshot) => {
+      const vector = snapshot.exists ? snapshot.get('vector') : undefined;
+      if (Array.isArray(vector)) found.set(snapshot.id, vector);
+    });
+  }
+  return found;
+}
+
+async function saveToFirestore(version: string, entries: Array<{ key: string; vector: number[] }>): Promise<void> {
+  if (!firestoreTierEnabled() || entries.length === 0) return;
+
+  // Only the hash is stored, never the text; expiresAt can drive a Firestore TTL policy
+  const expiresAt = new Date(Date.now() + envInt('EMBEDDING_CACHE_TTL_DAYS', 30) * DAY_MS);
+  for (const group of chunkArray(entries, FIRESTORE_BATCH_SIZE)) {
+    const batch = adminDb!.batch();
+    group.forEach(({ key, vector }) => {
+      batch.set(adminDb!.collection('embeddingCache').doc(key), { version, vector, createdAt: new Date(), expiresAt });
+    });
+    await batch.commit();
+  }
+}
+
+function recordHits(counts: Partial<EmbeddingCacheCounts>): void {
+  [processCounts, pendingCounts].forEach((target) => {
+    (Object.keys(counts) as Array<keyof EmbeddingCacheCounts>).forEach((name) => {
+      target[name] += counts[name] || 0;
+    });
+  });
+}
+
+/**
+ * Add this instance's counters since the last flush to Firestore `system/embeddingCacheStats`
+ */
+export async function flushEmbeddingCacheStats(): Promise<void> {
+  if (!adminDb || pendingCounts.lookups === 0) return;
+
+  const counts = pendingCounts;
+  pendingCounts = emptyCounts();
+  lastFlush = Date.now();
+  try {
+    const update: Record<string, unknown> = { updatedAt: new Date() };
+    (Object.keys(counts) as Array<keyof EmbeddingCacheCounts>).forEach((name) => {
+      update[name] = FieldValue.increment(counts[name]);
+    });
+    await adminDb.collection('system').doc('embeddingCacheStats').set(update, { merge: true });
+  } catch (error) {
+    console.error('Error saving embedding cache stats:', error);
+    // Keep the counts for the next flush
+    (Object.keys(counts) as Array<keyof EmbeddingCacheCounts>).forEach((name) => {
+      pendingCounts[name] += counts[name];
+    });
+  }
+}
+
+/**
+ * Embed texts through the cache: cached vectors are reused, the rest are embedded with
+ * embedMissing (each distinct text once) and cached. Cache failures never fail the embedding.
+ */
+export async function embedWithCache(
+  provider: EmbeddingProvider,
+  texts: string[],
+  embedMissing: (texts: string[]) => Promise<number[][]>
+): Promise<number[][]> {
+  const keys = texts.map(text => embeddingCacheKey(provider.version, text));
+  const vectors = new Map<string, number[]>();
+  let memoryHits = 0;
+  let firestoreHits = 0;
+  let savedTokens = 0;
+
+  // Distinct keys not in the in-process cache, with the first text for each
+  const missing = new Map<string, string>();
+  keys.forEach((key, i) => {
+    const vector = vectors.get(key) || getFromMemory(key);
+    if (vector) {
+      vectors.set(key, vector);
+      memoryHits++;
+      savedTokens += Math.ceil(texts[i].length / 4);
+    } else if (!missing.has(key)) {
+      missing.set(key, texts[i]);
+    } else {
+      // Repeated within this request: embedded once below
+      memoryHits++;
+      savedTokens += Math.ceil(texts[i].length / 4);
+    }
+  });
+
+  if (missing.size > 0) {
+    const stored = await getFromFirestore(Array.from(missing.keys())).catch((error) => {
+      console.error('Error reading embedding cache from Firestore:', error);
+      return new Map<string, number[]>();
+    });
+    stored.forEach((vector, key) => {
+      vectors.set(key, vector);
+      setInMemory(key, vector);
+      firestoreHits++;
+      savedTokens += Math.ceil((missing.get(key) || '').length / 4);
+      missing.delete(key);
+    });
+  }
+
+  if (missing.size > 0) {
+    const missingKeys = Array.from(missing.keys());
+    const embedded = await embedMissing(missingKeys.map(key => missing.get(key)!));
+    const entries = missingKeys.map((key, i) => ({ key, vector: embedded[i] }));
+    entries.forEach(({ key, vector }) => {
+      vectors.set(key, vector);
+      setInMemory(key, vector);
+    });
+    await saveToFirestore(provider.version, entries).catch((error) => {
+      console.error('Error writing embedding cache to Firestore:', error);
+    });
+  }
+
+  recordHits({
+    lookups: texts.length,
+    memoryHits,
+    firestoreHits,
+    misses: missing.size,
+    savedTokens,
+    savedCostUsd: provider.name === 'openai' ? (savedTokens / 1e6) * (OPENAI_EMBEDDING_PRICES[provider.model] || 0) : 0,
+  });
+  if (Date.now() - lastFlush >= STATS_FLUSH_INTERVAL_MS) {
+    await flushEmbeddingCacheStats();
+  }
+
+  return keys.map(key => vectors.get(key)!);
+}
+
+/**
+ * Hit-rate stats for this instance and, with Firebase Admin, for all instances
+ */
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+  await flushEmbeddingCacheStats();
+
+  let total: EmbeddingCacheStats['total'] = null;
+  if (adminDb) {
+    const data = (await adminDb.collection('system').doc('embeddingCacheStats').get()).data() || {};
+    const counts = emptyCounts();
+    (Object.keys(counts) as Array<keyof EmbeddingCacheCounts>).forEach((name) => {
+      counts[name] = typeof data[name] === 'number' ? data[name] : 0;
+    });
+    total = { ...counts, hitRate: hitRate(counts), updatedAt: data.updatedAt?.toDate?.() || null };
+  }
+
+  return {
+    process: { ...processCounts, hitRate: hitRate(processCounts), entries: memoryCache.size, maxEntries: maxEntries() },
+    total,
+    firestoreTier: firestoreTierEnabled(),
+  };
+}
+
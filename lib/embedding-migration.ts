@@ -0,0 +1,505 @@
+import { adminDb } from './firebase-admin';
+import {
+  getVectorStore,
+  setVectorLocation,
+  setUserStoreWrapper,
+  userNamespace,
+  userIdFromNamespace,
+} from './vector-store';
+import type { VectorStore, VectorRecord, VectorLocation } from './vector-store';
+import {
+  createEmbeddingProvider,
+  getConfiguredEmbeddingSpec,
+  setActiveEmbeddingSpec,
+  embedTexts,
+} from './embeddings';
+import type { EmbeddingProvider, EmbeddingSpec } from './embeddings';
+import { getMemoryTexts } from './memory-documents';
+import { invalidateUserKeywordIndex } from './keyword-index';
+import { envInt } from './batching';
+import { toDate } from './firestore-dates';
+
+/**
+ * Location and embedding space of a generation of memory vectors
+ */
+export interface EmbeddingTarget extends VectorLocation {
+  /** 0 for the original vectors; each re-embedding adds one */
+  generation: number;
+  embedding: EmbeddingSpec;
+  /** EmbeddingProvider.version of the vectors */
+  version: string;
+}
+
+/**
+ * Active target, and the target being filled while a re-embedding runs
+ */
+export interface EmbeddingTargetState {
+  active: EmbeddingTarget;
+  pending: EmbeddingTarget | null;
+  /** Target before the last switch; its vectors are kept until deleted by hand */
+  previous: EmbeddingTarget | null;
+  switchedAt: Date | null;
+}
+
+export interface EmbeddingMigrationProgress {
+  status: 'idle' | 'waiting' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  target: EmbeddingTarget | null;
+  /** User being re-embedded (users are processed in namespace order) */
+  currentUserId: string | null;
+  /** listIds cursor within that user's namespace */
+  cursor: string | null;
+  users: number;
+  reembedded: number;
+  batches: number;
+  startedAt: Date | null;
+  updatedAt: Date | null;
+  completedAt: Date | null;
+  error?: string;
+}
+
+export interface EmbeddingMigrationOptions {
+  /** Records re-embedded per batch (default 100) */
+  batchSize?: number;
+  /** Stop after this many batches; call again to continue (default: run to completion) */
+  maxBatches?: number;
+  onProgress?: (progress: EmbeddingMigrationProgress) => void;
+}
+
+const INITIAL_PROGRESS: EmbeddingMigrationProgress = {
+  status: 'idle',
+  target: null,
+  currentUserId: null,
+  cursor: null,
+  users: 0,
+  reembedded: 0,
+  batches: 0,
+  startedAt: null,
+  updatedAt: null,
+  completedAt: null,
+};
+
+// Servers re-read the target at most this often, so a switch reaches every instance within it
+const targetTtlMs = () => envInt('EMBEDDING_TARGET_TTL_MS', 60 * 1000);
+
+const targetDoc = () => adminDb?.collection('system').doc('embeddingTarget');
+const progressDoc = () => adminDb?.collection('system').doc('embeddingMigration');
+const resyncCollection = () => progressDoc()?.collection('resync');
+
+// Used when Firebase Admin is not configured (state survives only for the process lifetime)
+let localState: EmbeddingTargetState | null = null;
+let localProgress: EmbeddingMigrationProgress = { ...INITIAL_PROGRESS };
+const localResync = new Set<string>();
+
+let currentState: EmbeddingTargetState | null = null;
+let loadedAt = 0;
+
+// Firestore rejects undefined fields (targets hold plain values only)
+const storedTarget = (target: EmbeddingTarget | null) => (target ? JSON.parse(JSON.stringify(target)) : null);
+
+const providers = new Map<string, EmbeddingProvider>();
+
+function providerFor(target: EmbeddingTarget): EmbeddingProvider {
+  let provider = providers.get(target.version);
+  if (!provider) {
+    provider = createEmbeddingProvider(target.embedding);
+    providers.set(target.version, provider);
+  }
+  return provider;
+}
+
+/**
+ * Target of the vectors written before any re-embedding: the environment's embedding spec
+ */
+function initialTarget(): EmbeddingTarget {
+  const embedding = getConfiguredEmbeddingSpec();
+  return {
+    generation: 0,
+    indexName: null,
+    namespacePrefix: '',
+    embedding,
+    version: createEmbeddingProvider(embedding).version,
+  };
+}
+
+function userStore(target: VectorLocation, userId: string): VectorStore {
+  return getVectorStore(target.indexName).namespace(userNamespace(userId, target.namespacePrefix));
+}
+
+async function markForResync(userId: string): Promise<void> {
+  const collection = resyncCollection();
+  if (!collection) {
+    localResync.add(userId);
+    return;
+  }
+  await collection.doc(userId).set({ markedAt: new Date() });
+}
+
+/**
+ * Re-embed records with the target's provider, from the full text in Firestore where available
+ */
+async function reembedRecords(records: VectorRecord[], target: EmbeddingTarget): Promise<VectorRecord[]> {
+  if (records.length === 0) return [];
+  const provider = providerFor(target);
+  const fullTexts = await getMemoryTexts(records.map(record => record.id));
+
+  const texts = records.map((record) => {
+    const metadataText = String(record.metadata.text || '');
+    const fullText = fullTexts.get(record.id);
+    // Metadata text is truncated; a document that doesn't start with it is stale
+    return fullText && fullText.startsWith(metadataText) ? fullText : metadataText;
+  });
+  const embeddings = await embedTexts(texts, { provider });
+
+  return records.map((record, i) => ({
+    id: record.id,
+    values: embeddings[i],
+    metadata: { ...record.metadata, embeddingModel: provider.model, embeddingVersion: provider.version },
+  }));
+}
+
+/**
+ * User store that also applies writes to the pending target while a re-embedding runs,
+ * so memories written during the job are not missing after the switch.
+ * A failed mirror write marks the user to be re-embedded again before the switch.
+ */
+function createMirroringStore(userId: string, source: VectorStore, target: EmbeddingTarget): VectorStore {
+  const mirror = userStore(target, userId);
+  const onMirrorError = (error: unknown) => {
+    console.error('Error mirroring memory write to the re-embedding target:', error);
+    return markForResync(userId).catch((markError) => {
+      console.error('Error marking user for re-embedding:', markError);
+    });
+  };
+
+  return {
+    ...source,
+
+    async upsert(records) {
+      await source.upsert(records);
+      await reembedRecords(records, target).then(reembedded => mirror.upsert(reembedded)).catch(onMirrorError);
+    },
+
+    async deleteMany(ids) {
+      await source.deleteMany(ids);
+      await mirror.deleteMany(ids).catch(onMirrorError);
+    },
+
+    async deleteAll() {
+      await source.deleteAll();
+      await mirror.deleteAll().catch(onMirrorError);
+    },
+  };
+}
+
+function applyState(state: EmbeddingTargetState): void {
+  currentState = state;
+  loadedAt = Date.now();
+
+  const { active, pending } = state;
+  setVectorLocation({ indexName: active.indexName, namespacePrefix: active.namespacePrefix });
+  // Generation 0 follows the environment
+  setActiveEmbeddingSpec(active.generation > 0 ? active.embedding : null);
+  setUserStoreWrapper(pending ? (userId, store) => createMirroringStore(userId, store, pending) : null);
+}
+
+async function readState(): Promise<EmbeddingTargetState> {
+  const doc = targetDoc();
+  if (!doc) {
+    return localState || { active: initialTarget(), pending: null, previous: null, switchedAt: null };
+  }
+
+  const snapshot = await doc.get();
+  if (!snapshot.exists) {
+    return { active: initialTarget(), pending: null, previous: null, switchedAt: null };
+  }
+  const data = snapshot.data()!;
+  return {
+    active: data.active,
+    pending: data.pending || null,
+    previous: data.previous || null,
+    switchedAt: toDate(data.switchedAt),
+  };
+}
+
+async function saveState(state: EmbeddingTargetState): Promise<void> {
+  const doc = targetDoc();
+  if (!doc) {
+    localState = state;
+  } else {
+    await doc.set({
+      active: storedTarget(state.active),
+      pending: storedTarget(state.pending),
+      previous: storedTarget(state.previous),
+      switchedAt: state.switchedAt,
+    });
+  }
+  applyState(state);
+}
+
+/**
+ * Load the active embedding target (cached for EMBEDDING_TARGET_TTL_MS) and point the vector store,
+ * embedding provider and user store mirroring at it. Keeps the previous state if loading fails.
+ */
+export async function loadEmbeddingTarget(force: boolean = false): Promise<EmbeddingTargetState> {
+  if (currentState && !force && Date.now() - loadedAt < targetTtlMs()) {
+    return currentState;
+  }
+
+  try {
+    applyState(await readState());
+  } catch (error) {
+    console.error('Error loading embedding target:', error);
+    if (!currentState) throw error;
+    loadedAt = Date.now();
+  }
+  return currentState!;
+}
+
+/**
+ * Get the stored re-embedding progress
+ */
+export async function getEmbeddingMigrationProgress(): Promise<EmbeddingMigrationProgress> {
+  const doc = progressDoc();
+  if (!doc) return localProgress;
+
+  const snapshot = await doc.get();
+  if (!snapshot.exists) return { ...INITIAL_PROGRESS };
+
+  const data = snapshot.data()!;
+  return {
+    ...INITIAL_PROGRESS,
+    ...data,
+    startedAt: toDate(data.startedAt),
+    updatedAt: toDate(data.updatedAt),
+    completedAt: toDate(data.completedAt),
+  } as EmbeddingMigrationProgress;
+}
+
+async function saveProgress(progress: EmbeddingMigrationProgress): Promise<void> {
+  const doc = progressDoc();
+  if (!doc) {
+    localProgress = progress;
+    return;
+  }
+  const { error, ...rest } = progress;
+  await doc.set({ ...rest, target: storedTarget(rest.target), ...(error ? { error } : {}) });
+}
+
+/**
+ * Start re-embedding all user memories with another embedding model into a new namespace
+ * generation (and, for a different vector size on Pinecone, a new index). Writes are mirrored
+ * into the new target from now on; run the job with runEmbeddingMigration().
+ */
+export async function startEmbeddingMigration(
+  embedding: EmbeddingSpec,
+  options: { indexName?: string } = {}
+): Promise<EmbeddingMigrationProgress> {
+  const state = await loadEmbeddingTarget(true);
+  if (state.pending) {
+    throw new Error('A re-embedding is already in progress; run or cancel it first');
+  }
+
+  // Records still in the shared namespace would not be re-embedded
+  const shared = (await getVectorStore(state.active.indexName).listNamespaces()).find(info => info.name === '');
+  if (shared && shared.recordCount > 0) {
+    throw new Error('Finish the namespace migration (migrate-namespaces) before re-embedding');
+  }
+
+  const provider = createEmbeddingProvider(embedding);
+  const generation = state.active.generation + 1;
+  const target: EmbeddingTarget = {
+    generation,
+    indexName: options.indexName || state.active.indexName,
+    namespacePrefix: `g${generation}_`,
+    embedding: { ...embedding, provider: provider.name },
+    version: provider.version,
+  };
+
+  // Creates a new index if needed; fails if an existing index has another dimension
+  await getVectorStore(target.indexName).initialize(provider.dimension);
+
+  const now = new Date();
+  const progress: EmbeddingMigrationProgress = {
+    ...INITIAL_PROGRESS,
+    status: 'waiting',
+    target,
+    startedAt: now,
+    updatedAt: now,
+  };
+  await saveProgress(progress);
+  await saveState({ ...state, pending: target });
+
+  console.log(`Re-embedding started: ${state.active.version} -> ${target.version} (generation ${generation})`);
+  return progress;
+}
+
+/**
+ * Re-embed one user's memories into the target. With prune, target records that are no longer
+ * in the source are deleted (used for users whose mirrored writes failed).
+ */
+async function reembedUser(
+  userId: string,
+  source: EmbeddingTarget,
+  target: EmbeddingTarget,
+  batchSize: number,
+  prune: boolean = false
+): Promise<number> {
+  const from = userStore(source, userId);
+  const to = userStore(target, userId);
+  let count = 0;
+  const sourceIds = new Set<string>();
+
+  let cursor: string | undefined;
+  do {
+    const page = await from.listIds({ limit: batchSize, cursor });
+    await to.upsert(await reembedRecords(await from.fetch(page.ids), target));
+    page.ids.forEach(id => sourceIds.add(id));
+    count += page.ids.length;
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  if (prune) {
+    const extra: string[] = [];
+    cursor = undefined;
+    do {
+      const page = await to.listIds({ limit: batchSize, cursor });
+      page.ids.filter(id => !sourceIds.has(id)).forEach(id => extra.push(id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    if (extra.length > 0) await to.deleteMany(extra);
+  }
+  return count;
+}
+
+async function takeResyncUsers(): Promise<string[]> {
+  const collection = resyncCollection();
+  if (!collection) {
+    const userIds = Array.from(localResync);
+    localResync.clear();
+    return userIds;
+  }
+  const snapshot = await collection.get();
+  await Promise.all(snapshot.docs.map(doc => doc.ref.delete()));
+  return snapshot.docs.map(doc => doc.id);
+}
+
+/**
+ * Run (or continue) the started re-embedding. Users are processed in namespace order and progress
+ * is kept in Firestore `system/embeddingMigration`, so an interrupted run continues where it stopped.
+ * When every user is done, search switches to the new target with a single write of
+ * `system/embeddingTarget`; other servers follow within EMBEDDING_TARGET_TTL_MS and keep mirroring
+ * writes until then.
+ */
+export async function runEmbeddingMigration(
+  options: EmbeddingMigrationOptions = {}
+): Promise<EmbeddingMigrationProgress> {
+  const batchSize = options.batchSize || 100;
+  const state = await loadEmbeddingTarget(true);
+  const target = state.pending;
+  if (!target) {
+    throw new Error('No re-embedding in progress; start one first');
+  }
+  const source = state.active;
+
+  let progress: EmbeddingMigrationProgress = {
+    ...(await getEmbeddingMigrationProgress()),
+    target,
+    error: undefined,
+  };
+
+  const report = async () => {
+    progress.updatedAt = new Date();
+    await saveProgress(progress);
+    options.onProgress?.(progress);
+  };
+
+  try {
+    // Every server must be mirroring writes before records are copied
+    const mirroringFrom = (progress.startedAt?.getTime() || Date.now()) + targetTtlMs();
+    if (Date.now() < mirroringFrom) {
+      progress.status = 'waiting';
+      await report();
+      await new Promise(resolve => setTimeout(resolve, mirroringFrom - Date.now()));
+    }
+    progress.status = 'running';
+    await report();
+
+    const userIds = (await getVectorStore(source.indexName).listNamespaces())
+      .map(info => userIdFromNamespace(info.name, source.namespacePrefix))
+      .filter((userId): userId is string => userId !== null)
+      .sort()
+      .filter(userId => !progress.currentUserId || userId >= progress.currentUserId);
+
+    let batchesThisRun = 0;
+    for (const userId of userIds) {
+      if (userId !== progress.currentUserId) {
+        progress.currentUserId = userId;
+        progress.cursor = null;
+        progress.users++;
+      }
+      const from = userStore(source, userId);
+      const to = userStore(target, userId);
+
+      for (;;) {
+        if (options.maxBatches !== undefined && batchesThisRun >= options.maxBatches) {
+          progress.status = 'paused';
+          await report();
+          return progress;
+        }
+
+        const page = await from.listIds({ limit: batchSize, cursor: progress.cursor || undefined });
+        await to.upsert(await reembedRecords(await from.fetch(page.ids), target));
+
+        progress.reembedded += page.ids.length;
+        progress.cursor = page.nextCursor || null;
+        progress.batches++;
+        batchesThisRun++;
+        await report();
+        if (!page.nextCursor) break;
+      }
+    }
+
+    // Users whose mirrored writes failed are copied again before switching
+    for (const userId of await takeResyncUsers()) {
+      await reembedUser(userId, source, target, batchSize, true);
+    }
+
+    await saveState({ active: target, pending: null, previous: source, switchedAt: new Date() });
+    userIds.forEach(userId => invalidateUserKeywordIndex(userId));
+
+    progress.status = 'completed';
+    progress.completedAt = new Date();
+    await report();
+    console.log(
+      `Re-embedding completed: ${progress.reembedded} memories of ${progress.users} users, ` +
+      `search now uses ${target.version} (generation ${target.generation})`
+    );
+    return progress;
+  } catch (error) {
+    console.error('Error re-embedding memories:', error);
+    progress = { ...progress, status: 'failed', error: (error as Error)?.message || String(error), updatedAt: new Date() };
+    await saveProgress(progress).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Stop a re-embedding before the switch; search keeps using the active target.
+ * Vectors already written to the pending target are left in place.
+ */
+export async function cancelEmbeddingMigration(): Promise<EmbeddingMigrationProgress> {
+  const state = await loadEmbeddingTarget(true);
+  if (!state.pending) {
+    throw new Error('No re-embedding in progress');
+  }
+  await saveState({ ...state, pending: null });
+  await takeResyncUsers();
+
+  const progress: EmbeddingMigrationProgress = {
+    ...(await getEmbeddingMigrationProgress()),
+    status: 'cancelled',
+    updatedAt: new Date(),
+  };
+  await saveProgress(progress);
+  return progress;
+}
@@ -0,0 +1,207 @@
+import { getOpenAIClient } from './openai';
+import { chunkArray, mapWithConcurrency, envInt } from './batching';
+import { embedWithCache } from './embedding-cache';
+import { getCircuitBreaker } from './circuit-breaker';
+
+/**
+ * Source of text embeddings.
+ * Each provider carries its own model name and vector dimension so the
+ * vector store can be created and queried with matching sizes.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  /** Identifies the vector space: only vectors with the same version are comparable */
+  readonly version: string;
+  /** Embed a list of texts; returns one vector per input, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Known output sizes of OpenAI embedding models
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+/**
+ * Embeddings from the OpenAI API
+ */
+export function createOpenAIEmbeddingProvider(model: string = 'text-embedding-3-small'): EmbeddingProvider {
+  const dimension = OPENAI_MODEL_DIMENSIONS[model];
+  if (!dimension) {
+    throw new Error(`Unknown OpenAI embedding model: ${model}`);
+  }
+
+  return {
+    name: 'openai',
+    model,
+    dimension,
+    // OpenAI model names are fixed snapshots
+    version: `openai:${model}`,
+
+    async embed(texts) {
+      const response = await getCircuitBreaker('openai').run(() => getOpenAIClient().embeddings.create({
+        model,
+        input: texts,
+      }));
+      // Responses carry an index per input; sort to be safe
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic local embeddings from hashed word and character n-grams.
+ * No network access; similar wording gives similar vectors, which is enough
+ * for offline development, demos and retrieval benchmarks.
+ */
+export function createLocalEmbeddingProvider(dimension: number = 384): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array(dimension).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f']+/g) || [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = hashString(feature);
+      // Signed hashing keeps collisions from only ever adding up
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % dimension] += sign * weight;
+    };
+
+    words.forEach((word, i) => {
+      addFeature(`w:${word}`, 1);
+      if (i > 0) addFeature(`b:${words[i - 1]} ${word}`, 0.5);
+
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  };
+
+  return {
+    name: 'local',
+    model: `local-hashed-ngram-${dimension}`,
+    dimension,
+    // Bump when the hashing scheme changes
+    version: `local:hashed-ngram-v1:${dimension}`,
+
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/**
+ * Provider, model and dimension of an embedding space
+ */
+export interface EmbeddingSpec {
+  provider: string;
+  /** OpenAI model (default text-embedding-3-small) */
+  model?: string;
+  /** Local vector size (default 384) */
+  dimension?: number;
+}
+
+/**
+ * Create an embedding provider from a spec
+ */
+export function createEmbeddingProvider(spec: EmbeddingSpec): EmbeddingProvider {
+  const provider = spec.provider.toLowerCase();
+  if (provider === 'local') {
+    return createLocalEmbeddingProvider(spec.dimension || 384);
+  }
+  if (provider === 'openai') {
+    return createOpenAIEmbeddingProvider(spec.model || undefined);
+  }
+  throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider}`);
+}
+
+/**
+ * Embedding spec from the environment.
+ * Select with EMBEDDING_PROVIDER=openai|local (default: openai);
+ * EMBEDDING_MODEL overrides the OpenAI model, LOCAL_EMBEDDING_DIMENSION the local vector size.
+ */
+export function getConfiguredEmbeddingSpec(): EmbeddingSpec {
+  return {
+    provider: (process.env.EMBEDDING_PROVIDER || 'openai').toLowerCase(),
+    model: process.env.EMBEDDING_MODEL || undefined,
+    dimension: parseInt(process.env.LOCAL_EMBEDDING_DIMENSION || '384', 10),
+  };
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+// Set once memories have been re-embedded (see lib/embedding-migration.ts); overrides the environment
+let activeSpec: EmbeddingSpec | null = null;
+
+/**
+ * Use this spec instead of the environment for all embeddings (null to go back to the environment)
+ */
+export function setActiveEmbeddingSpec(spec: EmbeddingSpec | null): void {
+  if (JSON.stringify(spec) !== JSON.stringify(activeSpec)) {
+    activeSpec = spec;
+    embeddingProvider = null;
+  }
+}
+
+/**
+ * Get the embedding provider the stored memories were embedded with (lazy initialization)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProvider(activeSpec || getConfiguredEmbeddingSpec());
+  }
+  return embeddingProvider;
+}
+
+export interface EmbedBatchOptions {
+  /** Inputs per embeddings request (EMBEDDING_BATCH_SIZE, default 100) */
+  batchSize?: number;
+  /** Embeddings requests in flight at once (EMBEDDING_CONCURRENCY, default 4) */
+  concurrency?: number;
+  /** Provider to embed with (default: getEmbeddingProvider()) */
+  provider?: EmbeddingProvider;
+  /** Reuse and store vectors in the embedding cache (default true; see lib/embedding-cache.ts) */
+  cache?: boolean;
+}
+
+/**
+ * Embed many texts with few requests: cached texts are skipped, the rest are grouped into
+ * batches and batches are sent with a concurrency limit. Returns one vector per input, in order.
+ */
+export async function embedTexts(texts: string[], options: EmbedBatchOptions = {}): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const provider = options.provider || getEmbeddingProvider();
+  const batchSize = options.batchSize ?? envInt('EMBEDDING_BATCH_SIZE', 100);
+  const concurrency = options.concurrency ?? envInt('EMBEDDING_CONCURRENCY', 4);
+
+  const embedBatched = async (inputs: string[]): Promise<number[][]> => {
+    const batches = await mapWithConcurrency(
+      chunkArray(inputs, batchSize),
+      concurrency,
+      (batch) => provider.embed(batch)
+    );
+    return ([] as number[][]).concat(...batches);
+  };
+
+  return options.cache === false ? embedBatched(texts) : embedWithCache(provider, texts, embedBatched);
+}
@@ -0,0 +1,10 @@
+/**
+ * Date from a Firestore field: Timestamps as read back, or a Date; null for anything else
+ */
+export function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return null;
+}
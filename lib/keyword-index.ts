@@ -0,0 +1,187 @@
+import { getUserVectorStore } from './vector-store';
+import { envInt } from './batching';
+import type { MemoryMetadata } from './vector-store';
+
+// Common words that carry no retrieval signal
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'had', 'has', 'have',
+  'he', 'her', 'him', 'his', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on',
+  'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to',
+  'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your', 'user', 'agent',
+]);
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Split text into lowercase keyword tokens, without stopwords
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+interface IndexedDocument {
+  id: string;
+  metadata: MemoryMetadata;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface KeywordDocument {
+  id: string;
+  text: string;
+  metadata: MemoryMetadata;
+}
+
+export interface KeywordMatch {
+  id: string;
+  /** BM25 score divided by the best score for the query (0-1) */
+  score: number;
+  metadata: MemoryMetadata;
+}
+
+/**
+ * BM25 index over memory text; documents can be added, replaced and removed in place
+ */
+export interface KeywordIndex {
+  readonly size: number;
+  search(
+    queryText: string,
+    limit: number,
+    predicate?: (metadata: MemoryMetadata) => boolean
+  ): KeywordMatch[];
+  /** Add documents, or replace those with the same ID */
+  upsert(documents: KeywordDocument[]): void;
+  remove(ids: string[]): void;
+}
+
+export function createKeywordIndex(documents: KeywordDocument[]): KeywordIndex {
+  const indexed = new Map<string, IndexedDocument>();
+  const documentFrequencies = new Map<string, number>();
+  let totalLength = 0;
+
+  const adjustFrequencies = (document: IndexedDocument, delta: number) => {
+    document.termFrequencies.forEach((_, term) => {
+      const df = (documentFrequencies.get(term) || 0) + delta;
+      if (df > 0) {
+        documentFrequencies.set(term, df);
+      } else {
+        documentFrequencies.delete(term);
+      }
+    });
+    totalLength += delta * document.length;
+  };
+
+  const remove = (id: string) => {
+    const existing = indexed.get(id);
+    if (!existing) return;
+    adjustFrequencies(existing, -1);
+    indexed.delete(id);
+  };
+
+  const add = (document: KeywordDocument) => {
+    remove(document.id);
+    const tokens = tokenize(document.text);
+    const termFrequencies = new Map<string, number>();
+    tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+    const entry = { id: document.id, metadata: document.metadata, termFrequencies, length: tokens.length };
+    indexed.set(document.id, entry);
+    adjustFrequencies(entry, 1);
+  };
+
+  documents.forEach(add);
+
+  const idf = (term: string) => {
+    const df = documentFrequencies.get(term) || 0;
+    return Math.log(1 + (indexed.size - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    get size() {
+      return indexed.size;
+    },
+
+    upsert(updated) {
+      updated.forEach(add);
+    },
+
+    remove(ids) {
+      ids.forEach(remove);
+    },
+
+    search(queryText, limit, predicate) {
+      const terms = Array.from(new Set(tokenize(queryText))).filter(term => documentFrequencies.has(term));
+      if (terms.length === 0) return [];
+
+      const averageLength = totalLength / Math.max(indexed.size, 1);
+      const scored = Array.from(indexed.values())
+        .filter(document => !predicate || predicate(document.metadata))
+        .map((document) => {
+          let score = 0;
+          terms.forEach((term) => {
+            const tf = document.termFrequencies.get(term) || 0;
+            if (tf === 0) return;
+            const norm = BM25_K1 * (1 - BM25_B + BM25_B * (document.length / (averageLength || 1)));
+            score += idf(term) * ((tf * (BM25_K1 + 1)) / (tf + norm));
+          });
+          return { id: document.id, score, metadata: document.metadata };
+        })
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+      const best = scored.length > 0 ? scored[0].score : 1;
+      return scored.map(match => ({ ...match, score: match.score / best }));
+    },
+  };
+}
+
+// Per-user indexes are kept up to date with this instance's writes, and rebuilt from the vector
+// store after this long (or when invalidated) to pick up writes from other instances
+const KEYWORD_INDEX_TTL_MS = envInt('KEYWORD_INDEX_TTL_MS', 5 * 60 * 1000);
+
+const userIndexes = new Map<string, { index: KeywordIndex; builtAt: number }>();
+
+/**
+ * Get the keyword index for a user's memories, built from the text kept in vector metadata
+ */
+export async function getUserKeywordIndex(userId: string): Promise<KeywordIndex> {
+  const cached = userIndexes.get(userId);
+  if (cached && Date.now() - cached.builtAt < KEYWORD_INDEX_TTL_MS) {
+    return cached.index;
+  }
+
+  const records = await getUserVectorStore(userId).scan({ userId: { $eq: userId } });
+  const index = createKeywordIndex(records.map(record => ({
+    id: record.id,
+    text: String(record.metadata.text || ''),
+    metadata: record.metadata,
+  })));
+  userIndexes.set(userId, { index, builtAt: Date.now() });
+  return index;
+}
+
+/**
+ * Apply written or re-tagged memories (new text, pinned, soft-deleted) to a user's cached index.
+ * Without a cached index there is nothing to do: the next search builds it from the store.
+ */
+export function updateUserKeywordIndex(userId: string, records: Array<{ id: string; metadata: MemoryMetadata }>): void {
+  userIndexes.get(userId)?.index.upsert(records.map(record => ({
+    id: record.id,
+    text: String(record.metadata.text || ''),
+    metadata: record.metadata,
+  })));
+}
+
+export function removeFromUserKeywordIndex(userId: string, ids: string[]): void {
+  userIndexes.get(userId)?.index.remove(ids);
+}
+
+/**
+ * Drop a user's cached keyword index after bulk changes to their memories (migrations, purges)
+ */
+export function invalidateUserKeywordIndex(userId: string): void {
+  userIndexes.delete(userId);
+}
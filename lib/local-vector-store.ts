@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import { cosineSimilarity } from './vector-math';
+import { matchesFilter } from './metadata-filter';
+import type { VectorStore, VectorRecord, NamespaceInfo } from './vector-store';
+
+type NamespaceMap = Map<string, Map<string, VectorRecord>>;
+
+// Same default page size as Pinecone's list endpoint
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * In-process vector store for offline development, demos and tests.
+ * Records live in memory; if filePath is set they are also persisted to a JSON file
+ * of the form { namespaces: { [name]: VectorRecord[] } }.
+ */
+export function createLocalStore(filePath?: string): VectorStore {
+  let namespaces: NamespaceMap | null = null;
+
+  const load = (): NamespaceMap => {
+    if (!namespaces) {
+      namespaces = new Map();
+      if (filePath && fs.existsSync(filePath)) {
+        const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        // Files written before namespaces existed hold a flat record array
+        const byNamespace: Record<string, VectorRecord[]> = Array.isArray(stored) ? { '': stored } : stored.namespaces || {};
+        Object.keys(byNamespace).forEach((name) => {
+          namespaces!.set(name, new Map(byNamespace[name].map((record): [string, VectorRecord] => [record.id, record])));
+        });
+      }
+    }
+    return namespaces;
+  };
+
+  const persist = () => {
+    if (!filePath || !namespaces) return;
+    const byNamespace: Record<string, VectorRecord[]> = {};
+    namespaces.forEach((records, name) => {
+      if (records.size > 0) byNamespace[name] = Array.from(records.values());
+    });
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ namespaces: byNamespace }));
+  };
+
+  const createView = (namespaceName: string): VectorStore => {
+    const records = (): Map<string, VectorRecord> => {
+      const all = load();
+      let scoped = all.get(namespaceName);
+      if (!scoped) {
+        scoped = new Map();
+        all.set(namespaceName, scoped);
+      }
+      return scoped;
+    };
+
+    return {
+      name: 'local',
+      namespaceName,
+
+      namespace(name: string) {
+        return createView(name);
+      },
+
+      async listNamespaces() {
+        const infos: NamespaceInfo[] = [];
+        load().forEach((scoped, name) => {
+          if (scoped.size > 0) infos.push({ name, recordCount: scoped.size });
+        });
+        return infos;
+      },
+
+      async initialize() {
+        load();
+        console.log('Local vector store ready:', filePath || '(in-memory)');
+      },
+
+      async upsert(newRecords) {
+        const store = records();
+        newRecords.forEach((record) => store.set(record.id, record));
+        persist();
+      },
+
+      async query({ vector, topK, filter, includeValues }) {
+        return Array.from(records().values())
+          .filter((record) => matchesFilter(record.metadata, filter))
+          .map((record) => ({
+            id: record.id,
+            score: cosineSimilarity(vector, record.values),
+            metadata: record.metadata,
+            ...(includeValues ? { values: record.values } : {}),
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, topK);
+      },
+
+      async scan(filter, { prefix = '' } = {}) {
+        return Array.from(records().values())
+          .filter((record) => record.id.startsWith(prefix) && matchesFilter(record.metadata, filter))
+          .map((record) => ({ id: record.id, score: 0, metadata: record.metadata }));
+      },
+
+      async fetch(ids) {
+        const store = records();
+        return ids
+          .map((id) => store.get(id))
+          .filter((record): record is VectorRecord => record !== undefined);
+      },
+
+      async deleteMany(ids) {
+        const store = records();
+        ids.forEach((id) => store.delete(id));
+        persist();
+      },
+
+      async listIds({ prefix = '', limit = LIST_PAGE_SIZE, cursor } = {}) {
+        // Cursor is the last ID of the previous page
+        const ids = Array.from(records().keys())
+          .filter((id) => id.startsWith(prefix) && (!cursor || id > cursor))
+          .sort();
+        const page = ids.slice(0, limit);
+        return {
+          ids: page,
+          ...(ids.length > limit ? { nextCursor: page[page.length - 1] } : {}),
+        };
+      },
+
+      async deleteAll() {
+        load().delete(namespaceName);
+        persist();
+      },
+    };
+  };
+
+  return createView('');
+}
@@ -0,0 +1,262 @@
+import { adminDb } from './firebase-admin';
+import { envInt } from './batching';
+import type { MemorySearchResult } from './vector-memory';
+
+/**
+ * Formatting of the call context (the `lastCallTranscript` template variable) to a token budget
+ */
+
+export interface ContextFormatOptions {
+  /** Approximate token budget for the whole context (CONTEXT_TOKEN_BUDGET, default 1200) */
+  maxTokens?: number;
+  /** Label for the user's lines (default "User") */
+  userName?: string;
+  /** Reference time for relative dates (default now) */
+  now?: Date;
+}
+
+export interface LastCallTranscript {
+  transcripts: Array<{ speaker: string; text: string }>;
+  createdAt: Date | null;
+}
+
+export const FIRST_CALL_CONTEXT = 'No previous call. This is the first call';
+
+const AGENT_NAME = 'Alex';
+
+// Entries that would be cut below this size are skipped instead of truncated
+const MIN_ENTRY_TOKENS = 40;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OMITTED_NOTE = '(earlier part of the call omitted)';
+
+/**
+ * Rough token count (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function contextTokenBudget(): number {
+  return envInt('CONTEXT_TOKEN_BUDGET', 1200);
+}
+
+/**
+ * Describe a date relative to now, e.g. "today", "yesterday", "3 days ago", "2 months ago"
+ */
+export function formatRelativeDate(date: Date, now: Date = new Date()): string {
+  const startOfDay = (value: Date) => new Date(value.getFullYear(), value.getMonth(), value.getDate()).getTime();
+  const days = Math.round((startOfDay(now) - startOfDay(date)) / DAY_MS);
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 7) return plural(days, 'day');
+  if (days < 14) return 'last week';
+  if (days < 30) return plural(Math.floor(days / 7), 'week');
+  if (days < 60) return 'last month';
+  if (days < 365) return plural(Math.floor(days / 30), 'month');
+  return plural(Math.floor(days / 365), 'year');
+}
+
+/**
+ * Display name for a stored speaker ("user" / "agent")
+ */
+export function speakerLabel(speaker: string, userName: string = 'User'): string {
+  if (speaker === 'user') return userName;
+  if (speaker === 'agent') return AGENT_NAME;
+  return speaker;
+}
+
+/**
+ * Replace "user:" / "agent:" line prefixes (conversation chunks, transcripts) with display names
+ */
+function relabelLines(text: string, userName: string): string {
+  return text.replace(/^(user|agent):/gm, (_, speaker: string) => `${speakerLabel(speaker, userName)}:`);
+}
+
+function normalizeForDedupe(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^(user|agent):/gm, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cut text to roughly maxTokens at a word boundary
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function formatEntryText(memory: MemorySearchResult, userName: string): string {
+  switch (memory.type) {
+    case 'summary':
+      return `Call summary: ${memory.text}`;
+    case 'conversation':
+      return `Conversation:\n${relabelLines(memory.text, userName)}`;
+    case 'note':
+      return `${userName} asked ${AGENT_NAME} to remember: ${memory.text}`;
+    default:
+      return `${speakerLabel(memory.speaker, userName)}: ${memory.text}`;
+  }
+}
+
+/**
+ * Format memories as call context within a token budget.
+ * Memories are taken in priority order (pinned first, then as given) until the budget is used up;
+ * duplicates and memories contained in an earlier one are dropped. The selected memories are then
+ * written oldest first with relative dates. Returns '' when no memory fits.
+ */
+export function formatMemoryContext(
+  pinned: MemorySearchResult[],
+  recalled: MemorySearchResult[],
+  options: ContextFormatOptions = {}
+): string {
+  const maxTokens = options.maxTokens ?? contextTokenBudget();
+  const userName = options.userName || 'User';
+  const now = options.now || new Date();
+
+  const sections = [
+    { heading: 'Always remember:', memories: pinned },
+    { heading: 'Earlier conversations, oldest first:', memories: recalled },
+  ];
+
+  let remaining = maxTokens;
+  const seen: string[] = [];
+  const rendered: string[] = [];
+
+  sections.forEach(({ heading, memories }) => {
+    const headingTokens = estimateTokens(heading) + 1;
+    const selected: Array<{ memory: MemorySearchResult; text: string }> = [];
+
+    memories.forEach((memory) => {
+      const normalized = normalizeForDedupe(memory.text);
+      if (!normalized || seen.some(other => other.indexOf(normalized) !== -1)) return;
+
+      const prefix = `[${formatRelativeDate(memory.timestamp, now)}] `;
+      const overhead = estimateTokens(prefix) + 1 + (selected.length === 0 ? headingTokens : 0);
+      const available = remaining - overhead;
+      if (available < MIN_ENTRY_TOKENS) return;
+
+      const text = prefix + truncateToTokens(formatEntryText(memory, userName), available);
+      remaining -= estimateTokens(text) + 1 + (selected.length === 0 ? headingTokens : 0);
+      seen.push(normalized);
+      selected.push({ memory, text });
+    });
+
+    if (selected.length > 0) {
+      selected.sort((a, b) => a.memory.timestamp.getTime() - b.memory.timestamp.getTime());
+      rendered.push([heading, ...selected.map(entry => entry.text)].join('\n'));
+    }
+  });
+
+  return rendered.join('\n\n');
+}
+
+// Recall snippets are read out mid-call, so each one is kept short
+const SNIPPET_TOKENS = 60;
+
+/**
+ * Format memories as short, dated snippets for the in-call recall tool, e.g.
+ * "[3 days ago] Maria: My daughter is getting married in June". Order is kept; duplicates are dropped.
+ */
+export function formatRecallSnippets(memories: MemorySearchResult[], options: ContextFormatOptions = {}): string[] {
+  const userName = options.userName || 'User';
+  const now = options.now || new Date();
+  const seen: string[] = [];
+
+  return memories.reduce<string[]>((snippets, memory) => {
+    const normalized = normalizeForDedupe(memory.text);
+    if (!normalized || seen.some(other => other.indexOf(normalized) !== -1)) return snippets;
+    seen.push(normalized);
+
+    const text = formatEntryText(memory, userName).replace(/\s*\n\s*/g, ' ');
+    snippets.push(`[${formatRelativeDate(memory.timestamp, now)}] ${truncateToTokens(text, SNIPPET_TOKENS)}`);
+    return snippets;
+  }, []);
+}
+
+/**
+ * Format a stored call transcript as context, keeping the end of the call when it exceeds the budget.
+ * Returns '' for an empty transcript.
+ */
+export function formatTranscriptContext(lastCall: LastCallTranscript, options: ContextFormatOptions = {}): string {
+  const maxTokens = options.maxTokens ?? contextTokenBudget();
+  const userName = options.userName || 'User';
+
+  const heading = lastCall.createdAt
+    ? `Last call (${formatRelativeDate(lastCall.createdAt, options.now || new Date())}):`
+    : 'Last call:';
+  const lines = lastCall.transcripts
+    .filter(line => line.text && line.text.trim())
+    .map(line => (line.speaker ? `${speakerLabel(line.speaker, userName)}: ${line.text.trim()}` : line.text.trim()));
+  if (lines.length === 0) return '';
+
+  let remaining = maxTokens - estimateTokens(heading) - estimateTokens(OMITTED_NOTE) - 2;
+  const kept: string[] = [];
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(lines[i]) + 1;
+    if (tokens > remaining) {
+      if (kept.length === 0 && remaining >= MIN_ENTRY_TOKENS) {
+        kept.unshift(`…${lines[i].slice(-(remaining - 1) * 4)}`);
+      }
+      break;
+    }
+    kept.unshift(lines[i]);
+    remaining -= tokens;
+  }
+  if (kept.length === 0) return '';
+
+  const truncated = kept.length < lines.length ? [OMITTED_NOTE] : [];
+  return [heading, ...truncated, ...kept].join('\n');
+}
+
+/**
+ * Parse a transcript sent as "speaker: text" lines (the client's lastCallTranscript)
+ */
+export function parseTranscriptText(text: string): LastCallTranscript {
+  const transcripts = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(/^(user|agent):\s*(.*)$/);
+      return match ? { speaker: match[1], text: match[2] } : { speaker: '', text: line };
+    });
+  return { transcripts, createdAt: null };
+}
+
+/**
+ * Load the user's most recent call transcript from Firestore `callmemory`
+ * (null without Firebase Admin or when the user has no stored call)
+ */
+export async function getLastCallTranscript(userId: string): Promise<LastCallTranscript | null> {
+  if (!adminDb) return null;
+
+  try {
+    const snapshot = await adminDb
+      .collection('callmemory')
+      .where('userId', '==', userId)
+      .orderBy('created_at', 'desc')
+      .limit(1)
+      .get();
+    if (snapshot.empty) return null;
+
+    const data = snapshot.docs[0].data();
+    return {
+      transcripts: Array.isArray(data.transcripts) ? data.transcripts : [],
+      createdAt: data.created_at?.toDate ? data.created_at.toDate() : null,
+    };
+  } catch (error) {
+    console.error('Error loading last call transcript:', error);
+    return null;
+  }
+}
@@ -0,0 +1,259 @@
+import { FieldPath, FieldValue } from 'firebase-admin/firestore';
+import type { Query } from 'firebase-admin/firestore';
+import { adminDb } from './firebase-admin';
+import type { MemoryMetadata } from './vector-store';
+
+/**
+ * Full memory record kept in Firestore `memories/{memoryId}`.
+ * The vector store only holds a truncated copy of the text in its metadata.
+ */
+export interface MemoryDocument {
+  userId: string;
+  callId: string;
+  text: string;
+  speaker: string;
+  type: string;
+  timestamp: Date;
+  chunkIndex?: number;
+  utteranceIndex?: number;
+  /** Mirrors `pinned` in the vector metadata, so pinned memories can be listed without a vector query */
+  pinned?: boolean;
+  /** Entities masked in the text, by type (see lib/pii-redaction.ts) */
+  redactions?: Record<string, number>;
+}
+
+// Firestore limits batched writes and getAll calls
+const FIRESTORE_BATCH_SIZE = 500;
+
+let warnedNotConfigured = false;
+
+/**
+ * Store full memory text in Firestore.
+ * Skipped (with a warning) when Firebase Admin is not configured, e.g. in offline development.
+ */
+export async function saveMemoryDocuments(documents: Array<{ id: string } & MemoryDocument>): Promise<void> {
+  if (!adminDb) {
+    if (!warnedNotConfigured) {
+      console.warn('Firebase Admin not configured; full memory text not stored in Firestore');
+      warnedNotConfigured = true;
+    }
+    return;
+  }
+
+  for (let i = 0; i < documents.length; i += FIRESTORE_BATCH_SIZE) {
+    const batch = adminDb.batch();
+    documents.slice(i, i + FIRESTORE_BATCH_SIZE).forEach(({ id, chunkIndex, utteranceIndex, redactions, pinned, ...document }) => {
+      batch.set(adminDb!.collection('memories').doc(id), {
+        ...document,
+        // Firestore rejects undefined fields
+        ...(chunkIndex !== undefined ? { chunkIndex } : {}),
+        ...(utteranceIndex !== undefined ? { utteranceIndex } : {}),
+        ...(redactions !== undefined ? { redactions } : {}),
+        pinned: pinned ? true : FieldValue.delete(),
+        // Storing a forgotten memory again brings it back
+        deleted: FieldValue.delete(),
+        embeddingGenerated: true,
+        createdAt: new Date(),
+      }, { merge: true });
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * Load full memory text for the given memory IDs.
+ * Returns a map of memoryId -> text; IDs without a Firestore document are omitted.
+ */
+export async function getMemoryTexts(ids: string[]): Promise<Map<string, string>> {
+  const texts = new Map<string, string>();
+  if (!adminDb || ids.length === 0) {
+    return texts;
+  }
+
+  for (let i = 0; i < ids.length; i += FIRESTORE_BATCH_SIZE) {
+    const refs = ids.slice(i, i + FIRESTORE_BATCH_SIZE).map(id => adminDb!.collection('memories').doc(id));
+    const snapshots = await adminDb.getAll(...refs);
+    snapshots.forEach((snapshot) => {
+      const text = snapshot.exists ? snapshot.get('text') : undefined;
+      if (typeof text === 'string') {
+        texts.set(snapshot.id, text);
+      }
+    });
+  }
+  return texts;
+}
+
+/**
+ * Delete memory documents from Firestore
+ */
+export async function deleteMemoryDocuments(ids: string[]): Promise<void> {
+  if (!adminDb) {
+    return;
+  }
+
+  for (let i = 0; i < ids.length; i += FIRESTORE_BATCH_SIZE) {
+    const batch = adminDb.batch();
+    ids.slice(i, i + FIRESTORE_BATCH_SIZE).forEach(id => {
+      batch.delete(adminDb!.collection('memories').doc(id));
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * Mark memory documents of soft-deleted memories, so listing queries can count them out
+ */
+export async function markMemoryDocumentsDeleted(ids: string[], deletedAt: Date): Promise<void> {
+  if (!adminDb) {
+    return;
+  }
+
+  for (let i = 0; i < ids.length; i += FIRESTORE_BATCH_SIZE) {
+    const batch = adminDb.batch();
+    ids.slice(i, i + FIRESTORE_BATCH_SIZE).forEach(id => {
+      batch.set(adminDb!.collection('memories').doc(id), { deleted: true, deletedAt }, { merge: true });
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * Set or clear the pinned flag of a memory document
+ */
+export async function setMemoryDocumentPinned(id: string, pinned: boolean): Promise<void> {
+  if (!adminDb) {
+    return;
+  }
+  await adminDb.collection('memories').doc(id).set({ pinned: pinned ? true : FieldValue.delete() }, { merge: true });
+}
+
+/**
+ * Create the missing memory documents of vector records from their metadata. Vectors stored before
+ * the documents existed have none, and listing reads the documents. Existing documents of pinned
+ * records get the pinned flag. Returns the number created.
+ */
+export async function backfillMemoryDocuments(records: Array<{ id: string; metadata: MemoryMetadata }>): Promise<number> {
+  if (!adminDb || records.length === 0) {
+    return 0;
+  }
+
+  const existing = new Set<string>();
+  for (let i = 0; i < records.length; i += FIRESTORE_BATCH_SIZE) {
+    const refs = records.slice(i, i + FIRESTORE_BATCH_SIZE).map(record => adminDb!.collection('memories').doc(record.id));
+    (await adminDb.getAll(...refs)).forEach((snapshot) => {
+      if (snapshot.exists) existing.add(snapshot.id);
+    });
+  }
+
+  // Pins from before documents had the flag
+  const pinnedExisting = records.filter(record => existing.has(record.id) && record.metadata.pinned === true);
+  for (let i = 0; i < pinnedExisting.length; i += FIRESTORE_BATCH_SIZE) {
+    const batch = adminDb.batch();
+    pinnedExisting.slice(i, i + FIRESTORE_BATCH_SIZE).forEach((record) => {
+      batch.set(adminDb!.collection('memories').doc(record.id), { pinned: true }, { merge: true });
+    });
+    await batch.commit();
+  }
+
+  const missing = records.filter(record => !existing.has(record.id) && typeof record.metadata.userId === 'string');
+  await saveMemoryDocuments(missing.map(({ id, metadata }) => {
+    const timestamp = new Date(String(metadata.timestamp));
+    return {
+      id,
+      userId: String(metadata.userId),
+      callId: String(metadata.callId || ''),
+      // The vector metadata only has the first 1000 characters
+      text: String(metadata.text || ''),
+      speaker: String(metadata.speaker || 'unknown'),
+      // Records from before memory types are utterances or conversation chunks
+      type: typeof metadata.type === 'string' ? metadata.type : metadata.speaker === 'conversation' ? 'conversation' : 'utterance',
+      timestamp: isNaN(timestamp.getTime()) ? new Date(0) : timestamp,
+      chunkIndex: typeof metadata.chunkIndex === 'number' ? metadata.chunkIndex : undefined,
+      utteranceIndex: typeof metadata.utteranceIndex === 'number' ? metadata.utteranceIndex : undefined,
+      pinned: metadata.pinned === true,
+    };
+  }));
+
+  const deleted = missing.filter(record => record.metadata.deleted === true);
+  if (deleted.length > 0) {
+    await markMemoryDocumentsDeleted(deleted.map(record => record.id), new Date());
+  }
+  return missing.length;
+}
+
+/**
+ * Whether a user's vectors were checked for missing memory documents (`memoryDocumentBackfills/{uid}`)
+ */
+export async function isMemoryDocumentBackfillDone(userId: string): Promise<boolean> {
+  if (!adminDb) return false;
+  return (await adminDb.collection('memoryDocumentBackfills').doc(userId).get()).exists;
+}
+
+export async function markMemoryDocumentBackfillDone(userId: string, created: number): Promise<void> {
+  if (!adminDb) return;
+  await adminDb.collection('memoryDocumentBackfills').doc(userId).set({ created, completedAt: new Date() });
+}
+
+export interface MemoryDocumentFilter {
+  speaker?: string;
+  callId?: string;
+  types?: string[];
+  /** Only pinned memories */
+  pinned?: boolean;
+  /** Only memories at or after this time */
+  from?: Date;
+  /** Only memories before this time */
+  to?: Date;
+}
+
+/** Position in the newest-first order: the timestamp and ID of the last document read */
+export interface MemoryDocumentCursor {
+  timestamp: Date;
+  id: string;
+}
+
+function memoryDocumentQuery(userId: string, filter: MemoryDocumentFilter): Query {
+  let query: Query = adminDb!.collection('memories').where('userId', '==', userId);
+  if (filter.speaker) query = query.where('speaker', '==', filter.speaker);
+  if (filter.callId) query = query.where('callId', '==', filter.callId);
+  if (filter.types) query = query.where('type', 'in', filter.types);
+  if (filter.pinned) query = query.where('pinned', '==', true);
+  if (filter.from) query = query.where('timestamp', '>=', filter.from);
+  if (filter.to) query = query.where('timestamp', '<', filter.to);
+  return query;
+}
+
+/**
+ * One page of a user's memory IDs, newest first, starting after the cursor.
+ * Requires Firebase Admin; needs a composite index per filter combination.
+ */
+export async function listMemoryDocumentIds(
+  userId: string,
+  filter: MemoryDocumentFilter,
+  limit: number,
+  after?: MemoryDocumentCursor
+): Promise<MemoryDocumentCursor[]> {
+  let query = memoryDocumentQuery(userId, filter)
+    .orderBy('timestamp', 'desc')
+    .orderBy(FieldPath.documentId(), 'desc')
+    .select('timestamp')
+    .limit(limit);
+  if (after) {
+    query = query.startAfter(after.timestamp, after.id);
+  }
+
+  const snapshot = await query.get();
+  return snapshot.docs.map(doc => ({ id: doc.id, timestamp: doc.get('timestamp').toDate() }));
+}
+
+/**
+ * Number of a user's memories matching the filter, without soft-deleted ones
+ */
+export async function countMemoryDocuments(userId: string, filter: MemoryDocumentFilter): Promise<number> {
+  const query = memoryDocumentQuery(userId, filter);
+  const [all, deleted] = await Promise.all([
+    query.count().get(),
+    query.where('deleted', '==', true).count().get(),
+  ]);
+  return all.data().count - deleted.data().count;
+}
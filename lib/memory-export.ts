@@ -0,0 +1,284 @@
+import { getAllMemories, storeMemories, buildMemoryId } from './vector-memory';
+import type { MemorySearchResult, MemoryType, MemoryInput } from './vector-memory';
+import type { MemoryMetadata } from './vector-store';
+import { speakerLabel, formatRelativeDate } from './memory-context';
+
+/**
+ * One memory in the portable export format (one JSON object per line in JSONL exports)
+ */
+export interface PortableMemory {
+  /** Original memory ID; not used on import, where IDs are rebuilt from the content */
+  id?: string;
+  text: string;
+  speaker: string;
+  callId: string;
+  /** ISO 8601 */
+  timestamp: string;
+  type: MemoryType;
+  importance?: number;
+  pinned?: boolean;
+  utteranceIndex?: number;
+  chunkIndex?: number;
+  // Post-call summary fields
+  topics?: string[];
+  people?: string[];
+  emotionalTone?: string;
+  followUps?: string[];
+}
+
+export interface ImportResult {
+  imported: number;
+  /** Line number (JSONL) or position and the reason it was skipped */
+  errors: Array<{ line: number; error: string }>;
+}
+
+// Upper bound per import request, to keep it within one function invocation
+export const MAX_IMPORT_MEMORIES = 10000;
+
+const MEMORY_TYPES: MemoryType[] = ['utterance', 'conversation', 'summary', 'note'];
+
+const stringArray = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+export function toPortableMemory(memory: MemorySearchResult): PortableMemory {
+  const { metadata } = memory;
+  const portable: PortableMemory = {
+    id: memory.id,
+    text: memory.text,
+    speaker: memory.speaker,
+    callId: memory.callId,
+    timestamp: memory.timestamp.toISOString(),
+    type: memory.type,
+    importance: memory.importance,
+    ...(memory.pinned ? { pinned: true } : {}),
+    ...(typeof metadata.utteranceIndex === 'number' ? { utteranceIndex: metadata.utteranceIndex } : {}),
+    ...(typeof metadata.chunkIndex === 'number' ? { chunkIndex: metadata.chunkIndex } : {}),
+  };
+
+  if (memory.type === 'summary') {
+    portable.topics = stringArray(metadata.topics);
+    portable.people = stringArray(metadata.people);
+    portable.followUps = stringArray(metadata.followUps);
+    if (typeof metadata.emotionalTone === 'string') portable.emotionalTone = metadata.emotionalTone;
+  }
+  return portable;
+}
+
+/**
+ * Export a user's memories, oldest first
+ */
+export async function exportUserMemories(userId: string): Promise<PortableMemory[]> {
+  return (await getAllMemories(userId)).map(toPortableMemory);
+}
+
+export function toJsonl(memories: PortableMemory[]): string {
+  return memories.map(memory => JSON.stringify(memory)).join('\n') + (memories.length > 0 ? '\n' : '');
+}
+
+/**
+ * Human-readable journal: notes first, then one section per call in date order,
+ * with the call summary followed by what was said
+ */
+export function toMarkdownJournal(
+  memories: PortableMemory[],
+  options: { userName?: string; now?: Date } = {}
+): string {
+  const userName = options.userName || 'User';
+  const now = options.now || new Date();
+  const title = options.userName ? `What Alex remembers about ${options.userName}` : 'What Alex remembers';
+  const lines: string[] = [`# ${title}`, '', `Exported ${now.toISOString().slice(0, 10)}.`, ''];
+
+  const notes = memories.filter(memory => memory.type === 'note');
+  if (notes.length > 0) {
+    lines.push('## Things to remember', '');
+    notes.forEach(note => lines.push(`- ${note.text} _(${note.timestamp.slice(0, 10)})_`));
+    lines.push('');
+  }
+
+  const calls = new Map<string, PortableMemory[]>();
+  memories
+    .filter(memory => memory.type !== 'note')
+    .forEach(memory => calls.set(memory.callId, [...(calls.get(memory.callId) || []), memory]));
+
+  const callTime = (entries: PortableMemory[]) => Math.min(...entries.map(entry => new Date(entry.timestamp).getTime()));
+  Array.from(calls.entries())
+    .sort((a, b) => callTime(a[1]) - callTime(b[1]))
+    .forEach(([callId, entries]) => {
+      const date = new Date(callTime(entries));
+      lines.push(`## ${date.toISOString().slice(0, 10)} (${formatRelativeDate(date, now)})`, '', `_Call ${callId}_`, '');
+
+      entries.filter(entry => entry.type === 'summary').forEach((summary) => {
+        lines.push('**Summary**', '', summary.text, '');
+      });
+
+      // Single utterances read as the conversation; chunks only when no utterances were kept
+      const utterances = entries
+        .filter(entry => entry.type === 'utterance')
+        .sort((a, b) => (a.utteranceIndex ?? 0) - (b.utteranceIndex ?? 0) || a.timestamp.localeCompare(b.timestamp));
+      const chunks = entries
+        .filter(entry => entry.type === 'conversation')
+        .sort((a, b) => (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0));
+
+      if (utterances.length > 0) {
+        utterances.forEach(entry => lines.push(`- **${speakerLabel(entry.speaker, userName)}:** ${entry.text}`));
+        lines.push('');
+      } else if (chunks.length > 0) {
+        chunks.forEach(chunk => lines.push(chunk.text.replace(/^(user|agent):/gm, (_, speaker: string) => `${speakerLabel(speaker, userName)}:`), ''));
+      }
+    });
+
+  return lines.join('\n');
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Validate one parsed memory; returns an error message or the memory with only the known fields
+ */
+function validatePortableMemory(value: unknown): PortableMemory | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'not an object';
+  const input = value as Record<string, unknown>;
+
+  if (typeof input.text !== 'string' || !input.text.trim()) return 'text is required';
+  if (typeof input.callId !== 'string' || !input.callId) return 'callId is required';
+  if (!MEMORY_TYPES.includes(input.type as MemoryType)) return `type must be one of: ${MEMORY_TYPES.join(', ')}`;
+  if (typeof input.timestamp !== 'string' || isNaN(new Date(input.timestamp).getTime())) return 'timestamp must be an ISO date';
+  if (input.speaker !== undefined && typeof input.speaker !== 'string') return 'speaker must be a string';
+  if (input.importance !== undefined && (typeof input.importance !== 'number' || input.importance < 0 || input.importance > 1)) {
+    return 'importance must be between 0 and 1';
+  }
+  if (input.pinned !== undefined && typeof input.pinned !== 'boolean') return 'pinned must be true or false';
+  if (input.utteranceIndex !== undefined && !isIndex(input.utteranceIndex)) return 'utteranceIndex must be a non-negative integer';
+  if (input.chunkIndex !== undefined && !isIndex(input.chunkIndex)) return 'chunkIndex must be a non-negative integer';
+  for (const field of ['topics', 'people', 'followUps']) {
+    if (input[field] !== undefined && !isStringArray(input[field])) return `${field} must be an array of strings`;
+  }
+  if (input.emotionalTone !== undefined && typeof input.emotionalTone !== 'string') return 'emotionalTone must be a string';
+
+  return {
+    ...(typeof input.id === 'string' ? { id: input.id } : {}),
+    text: input.text,
+    speaker: input.speaker || 'unknown',
+    callId: input.callId,
+    timestamp: input.timestamp,
+    type: input.type as MemoryType,
+    ...(input.importance !== undefined ? { importance: input.importance } : {}),
+    ...(input.pinned !== undefined ? { pinned: input.pinned } : {}),
+    ...(input.utteranceIndex !== undefined ? { utteranceIndex: input.utteranceIndex } : {}),
+    ...(input.chunkIndex !== undefined ? { chunkIndex: input.chunkIndex } : {}),
+    ...(input.topics !== undefined ? { topics: input.topics as string[] } : {}),
+    ...(input.people !== undefined ? { people: input.people as string[] } : {}),
+    ...(input.emotionalTone !== undefined ? { emotionalTone: input.emotionalTone } : {}),
+    ...(input.followUps !== undefined ? { followUps: input.followUps as string[] } : {}),
+  };
+}
+
+/**
+ * Parse a JSONL export; invalid lines are reported, not thrown
+ */
+export function parseJsonl(text: string): { memories: PortableMemory[]; errors: ImportResult['errors'] } {
+  const memories: PortableMemory[] = [];
+  const errors: ImportResult['errors'] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      errors.push({ line: index + 1, error: 'invalid JSON' });
+      return;
+    }
+    const result = validatePortableMemory(parsed);
+    if (typeof result === 'string') {
+      errors.push({ line: index + 1, error: result });
+    } else {
+      memories.push(result);
+    }
+  });
+  return { memories, errors };
+}
+
+/**
+ * ID for an imported memory, rebuilt the way the memory would have been stored for this user (so a
+ * later re-store of the call upserts in place). The ID in the file is never used: it could name any
+ * of the user's records.
+ */
+export function importedMemoryId(userId: string, memory: PortableMemory): string {
+  switch (memory.type) {
+    case 'summary':
+      return buildMemoryId(userId, memory.callId, 'summary', memory.callId);
+    case 'note':
+      return buildMemoryId(userId, memory.callId, 'note', memory.text);
+    case 'utterance':
+      return memory.utteranceIndex !== undefined
+        ? buildMemoryId(userId, memory.callId, `u${memory.utteranceIndex}`, `${memory.speaker}: ${memory.text}`)
+        : buildMemoryId(userId, memory.callId, 'memory', memory.text);
+    default:
+      return memory.chunkIndex !== undefined
+        ? buildMemoryId(userId, memory.callId, `c${memory.chunkIndex}`, memory.text)
+        : buildMemoryId(userId, memory.callId, 'memory', memory.text);
+  }
+}
+
+/**
+ * Restore exported memories for a user: every memory is re-embedded with the active model and
+ * stored with its original call, time, type, importance and pin. Importing the same export twice
+ * overwrites instead of duplicating.
+ */
+export async function importUserMemories(userId: string, memories: PortableMemory[]): Promise<ImportResult> {
+  const errors: ImportResult['errors'] = [];
+  const valid: PortableMemory[] = [];
+  memories.forEach((memory, index) => {
+    const result = validatePortableMemory(memory);
+    if (typeof result === 'string') {
+      errors.push({ line: index + 1, error: result });
+    } else {
+      valid.push(result);
+    }
+  });
+
+  if (valid.length > MAX_IMPORT_MEMORIES) {
+    throw new Error(`At most ${MAX_IMPORT_MEMORIES} memories can be imported at once`);
+  }
+
+  const inputs: MemoryInput[] = valid.map((memory) => {
+    const extraMetadata: MemoryMetadata = {};
+    if (memory.type === 'summary') {
+      extraMetadata.topics = memory.topics || [];
+      extraMetadata.people = memory.people || [];
+      extraMetadata.followUps = memory.followUps || [];
+      if (memory.emotionalTone) extraMetadata.emotionalTone = memory.emotionalTone;
+    }
+    if (memory.pinned) {
+      extraMetadata.pinned = true;
+      extraMetadata.pinnedBy = 'user';
+      extraMetadata.pinnedAt = new Date().toISOString();
+    }
+
+    return {
+      memoryId: importedMemoryId(userId, memory),
+      text: memory.text,
+      type: memory.type,
+      speaker: memory.speaker,
+      callId: memory.callId,
+      timestamp: new Date(memory.timestamp),
+      importance: memory.importance,
+      utteranceIndex: memory.utteranceIndex,
+      chunkIndex: memory.chunkIndex,
+      extraMetadata,
+    };
+  });
+
+  if (inputs.length > 0) {
+    // The call ID of each memory is taken from the input; the batch call ID is only a fallback
+    await storeMemories(userId, 'import', inputs);
+  }
+
+  console.log(`Imported ${inputs.length} memories for user ${userId} (${errors.length} skipped)`);
+  return { imported: inputs.length, errors };
+}
@@ -0,0 +1,67 @@
+/**
+ * Importance of a memory (0-1), assigned when it is stored.
+ * Heuristic: a base per memory type plus signals for life events, people and feelings,
+ * plans and explicit requests to remember; small talk scores low.
+ */
+
+// Importance of records stored before scores existed
+export const DEFAULT_IMPORTANCE = 0.5;
+
+const BASE_IMPORTANCE: Record<string, number> = {
+  note: 0.9,
+  summary: 0.6,
+  conversation: 0.4,
+  utterance: 0.3,
+};
+
+const SIGNALS: Array<{ pattern: RegExp; weight: number }> = [
+  // Loss, health and major life events
+  {
+    pattern: /\b(died|dies|passed away|funeral|death|diagnos\w*|cancer|hospital\w*|surgery|stroke|heart attack|divorc\w*|pregnan\w*|baby|born|wedding|married|engaged|retir\w*|fired|laid off|new job|promot\w*|moved|moving)\b/i,
+    weight: 0.35,
+  },
+  // People, pets and strong feelings
+  {
+    pattern: /\b(mother|mom|mum|father|dad|wife|husband|son|daughter|sister|brother|grand\w+|partner|girlfriend|boyfriend|friend|dog|cat|love|hate|afraid|scared|worried|anxious|lonely|depress\w*|grief|grieving)\b/i,
+    weight: 0.2,
+  },
+  // Dates and plans worth following up on
+  {
+    pattern: /\b(birthday|anniversary|tomorrow|next week|next month|appointment|interview|exam|trip|vacation|holiday)\b/i,
+    weight: 0.15,
+  },
+  // Explicit requests to remember
+  {
+    pattern: /\b(remember|don't forget|do not forget|important)\b/i,
+    weight: 0.2,
+  },
+];
+
+const SMALL_TALK = /^(hi|hello|hey|yes|yeah|yep|no|nope|ok|okay|sure|right|thanks|thank you|bye|goodbye|good ?night|mm+|uh+|um+|hmm+)[\s.!?,]*$/i;
+
+const PASSING_REMARK = /\b(weather|rain\w*|sunny|cloudy|windy|snow\w*)\b/i;
+
+// What Alex says matters less than what the user says
+const AGENT_FACTOR = 0.6;
+
+export function scoreImportance(text: string, options: { type?: string; speaker?: string } = {}): number {
+  const type = options.type || 'utterance';
+  const trimmed = text.trim();
+
+  if (type === 'utterance' && (SMALL_TALK.test(trimmed) || trimmed.split(/\s+/).length < 3)) {
+    return 0.1;
+  }
+
+  let score = BASE_IMPORTANCE[type] ?? BASE_IMPORTANCE.utterance;
+  SIGNALS.forEach(({ pattern, weight }) => {
+    if (pattern.test(trimmed)) score += weight;
+  });
+  if (PASSING_REMARK.test(trimmed)) {
+    score -= 0.1;
+  }
+  if (type === 'utterance' && options.speaker === 'agent') {
+    score *= AGENT_FACTOR;
+  }
+
+  return Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100;
+}
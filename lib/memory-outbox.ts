@@ -0,0 +1,313 @@
+import { adminDb } from './firebase-admin';
+import { storeConversationMemory, forgetMatching } from './vector-memory';
+import { summarizeCall } from './call-summary';
+import type { CallSummary } from './call-summary';
+import { updateUserFacts, forgetUserFacts } from './user-facts';
+import { isCircuitOpenError } from './circuit-breaker';
+import { envInt } from './batching';
+import { redactTranscripts } from './pii-redaction';
+import { isConversationHistoryEnabled } from './memory-retention';
+import { toDate } from './firestore-dates';
+
+/**
+ * Durable outbox for memory writes that failed (OpenAI or Pinecone errors), in Firestore
+ * `memoryOutbox/{kind}_{userId}_{callId}`. Entries are retried with exponential backoff by the
+ * scheduled processor; after OUTBOX_MAX_ATTEMPTS they are dead-lettered for an admin to retry
+ * or discard. A newer write for the same call replaces a pending one, since transcripts are
+ * re-sent in full.
+ */
+
+export type MemoryWriteKind = 'store' | 'summarize';
+
+export interface MemoryWrite {
+  /** store: the call transcript; summarize: the final transcript, summary, user facts and forget requests */
+  kind: MemoryWriteKind;
+  userId: string;
+  callId: string;
+  transcripts: Array<{ speaker: string; text: string }>;
+  forgetPhrases?: string[];
+}
+
+export interface MemoryWriteResult {
+  summary?: CallSummary | null;
+  factsChanged?: number;
+}
+
+export type OutboxStatus = 'pending' | 'dead';
+
+export interface OutboxEntry {
+  id: string;
+  kind: MemoryWriteKind;
+  userId: string;
+  callId: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  deadAt: Date | null;
+  transcriptLines: number;
+}
+
+export interface OutboxRunReport {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+  /** Stopped early because a circuit was open or the time budget ran out */
+  stopped: 'circuit-open' | 'deadline' | null;
+}
+
+const COLLECTION = 'memoryOutbox';
+
+// A claimed entry is due again after this long, in case the processor dies mid-write
+const LEASE_MS = 5 * 60 * 1000;
+
+// Backoff before retry n: OUTBOX_BASE_DELAY_MS × 2^(n-1), capped, with ±20% jitter
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export function outboxEntryId(write: Pick<MemoryWrite, 'kind' | 'userId' | 'callId'>): string {
+  return `${write.kind}_${write.userId}_${write.callId}`;
+}
+
+export function retryDelayMs(attempt: number): number {
+  const base = envInt('OUTBOX_BASE_DELAY_MS', 60 * 1000);
+  const delay = Math.min(base * Math.pow(2, Math.max(0, attempt - 1)), MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Run a memory write. On success, queued writes it supersedes are removed: a stored transcript
+ * replaces an earlier one of the same call, and summarizing stores the final transcript as well.
+ * With "Save conversation history" off nothing of the call is stored, summarized or extracted (and
+ * queued writes of the call are still removed).
+ */
+export async function performMemoryWrite(write: MemoryWrite): Promise<MemoryWriteResult> {
+  const { userId, callId, transcripts } = write;
+  let result: MemoryWriteResult = {};
+
+  const historyEnabled = await isConversationHistoryEnabled(userId);
+  if (!historyEnabled) {
+    // The call's forget requests need nothing either: they apply to memories of this call
+    console.log(`Conversation history is off for user ${userId}; call ${callId} not stored`);
+  } else {
+    await storeConversationMemory(userId, callId, transcripts);
+  }
+
+  if (historyEnabled && write.kind === 'summarize') {
+    const forgetPhrases = write.forgetPhrases || [];
+
+    // Summary and fact extraction are independent; a failed fact update doesn't fail the summary
+    const [summary, factsChanged] = await Promise.all([
+      summarizeCall(userId, callId, transcripts, forgetPhrases),
+      updateUserFacts(userId, callId, transcripts, forgetPhrases).catch((error) => {
+        console.error('Error updating user facts:', error);
+        return 0;
+      }),
+    ]);
+
+    // The final transcript chunks stored above may mention forgotten topics again, and the
+    // extraction may have picked up a fact about one despite being told to leave them out
+    for (const phrase of forgetPhrases) {
+      await forgetMatching(userId, phrase, { callId });
+      await forgetUserFacts(userId, phrase);
+    }
+    result = { summary, factsChanged };
+  }
+
+  if (adminDb) {
+    const superseded = write.kind === 'summarize' ? ['store', 'summarize'] : ['store'];
+    await Promise.all(superseded.map(kind =>
+      adminDb!.collection(COLLECTION).doc(outboxEntryId({ kind: kind as MemoryWriteKind, userId, callId })).delete()
+    )).catch((error) => {
+      console.error('Error clearing superseded outbox entries:', error);
+    });
+  }
+  return result;
+}
+
+/**
+ * Queue a failed write for retry. Returns false when it can't be queued (no Firebase Admin
+ * or Firestore failing too), in which case the write is lost and the caller should report an error.
+ */
+export async function enqueueMemoryWrite(write: MemoryWrite, error: unknown): Promise<boolean> {
+  if (!adminDb) return false;
+
+  try {
+    const now = new Date();
+    await adminDb.collection(COLLECTION).doc(outboxEntryId(write)).set({
+      kind: write.kind,
+      userId: write.userId,
+      callId: write.callId,
+      // Masked like stored memories, so the queue doesn't keep what memory storage would not
+      transcripts: await redactTranscripts(write.transcripts),
+      forgetPhrases: write.forgetPhrases || [],
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(now.getTime() + retryDelayMs(1)),
+      lastError: (error as Error)?.message || String(error),
+      createdAt: now,
+      updatedAt: now,
+    });
+    console.log(`Queued ${write.kind} of call ${write.callId} for retry`);
+    return true;
+  } catch (queueError) {
+    console.error('Error queueing memory write:', queueError);
+    return false;
+  }
+}
+
+/**
+ * Claim a due entry (attempts + 1, lease) in a transaction so that concurrent processors
+ * don't run the same write; null if another processor got it first
+ */
+async function claimEntry(id: string, now: Date): Promise<(MemoryWrite & { attempts: number }) | null> {
+  const ref = adminDb!.collection(COLLECTION).doc(id);
+  return adminDb!.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = snapshot.data();
+    if (!data || data.status !== 'pending' || (toDate(data.nextAttemptAt)?.getTime() ?? 0) > now.getTime()) {
+      return null;
+    }
+
+    const attempts = (data.attempts || 0) + 1;
+    transaction.update(ref, { attempts, nextAttemptAt: new Date(now.getTime() + LEASE_MS), updatedAt: now });
+    return {
+      kind: data.kind,
+      userId: data.userId,
+      callId: data.callId,
+      transcripts: Array.isArray(data.transcripts) ? data.transcripts : [],
+      forgetPhrases: Array.isArray(data.forgetPhrases) ? data.forgetPhrases : [],
+      attempts,
+    };
+  });
+}
+
+/**
+ * Retry due outbox entries, oldest due first. Stops early when a circuit is open (the rest
+ * would fail the same way) or after deadlineMs.
+ */
+export async function processMemoryOutbox(options: { limit?: number; deadlineMs?: number } = {}): Promise<OutboxRunReport> {
+  const report: OutboxRunReport = { processed: 0, succeeded: 0, retried: 0, deadLettered: 0, stopped: null };
+  if (!adminDb) return report;
+
+  const startedAt = Date.now();
+  const maxAttempts = envInt('OUTBOX_MAX_ATTEMPTS', 8);
+  const due = await adminDb.collection(COLLECTION)
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', new Date())
+    .orderBy('nextAttemptAt')
+    .limit(options.limit || 20)
+    .get();
+
+  for (const doc of due.docs) {
+    if (options.deadlineMs && Date.now() - startedAt > options.deadlineMs) {
+      report.stopped = 'deadline';
+      break;
+    }
+
+    const now = new Date();
+    const write = await claimEntry(doc.id, now);
+    if (!write) continue;
+    report.processed++;
+
+    try {
+      await performMemoryWrite(write);
+      report.succeeded++;
+    } catch (error) {
+      const ref = adminDb.collection(COLLECTION).doc(doc.id);
+      const lastError = (error as Error)?.message || String(error);
+
+      if (isCircuitOpenError(error)) {
+        // Not the write's fault: don't count the attempt, try again when the circuit allows
+        await ref.update({ attempts: write.attempts - 1, nextAttemptAt: error.retryAt, lastError, updatedAt: new Date() });
+        report.stopped = 'circuit-open';
+        break;
+      }
+
+      if (write.attempts >= maxAttempts) {
+        await ref.update({ status: 'dead', deadAt: new Date(), lastError, updatedAt: new Date() });
+        console.error(`Memory write ${doc.id} dead-lettered after ${write.attempts} attempts:`, lastError);
+        report.deadLettered++;
+      } else {
+        await ref.update({ nextAttemptAt: new Date(Date.now() + retryDelayMs(write.attempts + 1)), lastError, updatedAt: new Date() });
+        report.retried++;
+      }
+    }
+  }
+
+  if (report.processed > 0) {
+    console.log('Memory outbox run:', report);
+  }
+  return report;
+}
+
+function toOutboxEntry(id: string, data: Record<string, any>): OutboxEntry {
+  return {
+    id,
+    kind: data.kind,
+    userId: data.userId,
+    callId: data.callId,
+    status: data.status,
+    attempts: data.attempts || 0,
+    nextAttemptAt: toDate(data.nextAttemptAt),
+    lastError: data.lastError || null,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+    deadAt: toDate(data.deadAt),
+    transcriptLines: Array.isArray(data.transcripts) ? data.transcripts.length : 0,
+  };
+}
+
+/**
+ * Outbox entries with the given status (without their transcripts), most recently updated first
+ */
+export async function listOutboxEntries(status: OutboxStatus, limit: number = 50): Promise<OutboxEntry[]> {
+  if (!adminDb) return [];
+
+  const snapshot = await adminDb.collection(COLLECTION)
+    .where('status', '==', status)
+    .orderBy('updatedAt', 'desc')
+    .limit(limit)
+    .get();
+  return snapshot.docs.map(doc => toOutboxEntry(doc.id, doc.data()));
+}
+
+export async function getOutboxCounts(): Promise<Record<OutboxStatus, number>> {
+  if (!adminDb) return { pending: 0, dead: 0 };
+
+  const count = async (status: OutboxStatus) =>
+    (await adminDb!.collection(COLLECTION).where('status', '==', status).count().get()).data().count;
+  const [pending, dead] = await Promise.all([count('pending'), count('dead')]);
+  return { pending, dead };
+}
+
+/**
+ * Put dead-lettered entries (one, or all) back in the queue with a fresh attempt count
+ */
+export async function retryDeadLetters(id?: string): Promise<number> {
+  if (!adminDb) throw new Error('Firebase Admin is not configured');
+
+  const docs = id
+    ? [await adminDb.collection(COLLECTION).doc(id).get()].filter(doc => doc.exists && doc.get('status') === 'dead')
+    : (await adminDb.collection(COLLECTION).where('status', '==', 'dead').get()).docs;
+
+  const now = new Date();
+  for (const doc of docs) {
+    await doc.ref.update({ status: 'pending', attempts: 0, nextAttemptAt: now, deadAt: null, updatedAt: now });
+  }
+  return docs.length;
+}
+
+/**
+ * Drop an entry for good
+ */
+export async function discardOutboxEntry(id: string): Promise<boolean> {
+  if (!adminDb) throw new Error('Firebase Admin is not configured');
+
+  const ref = adminDb.collection(COLLECTION).doc(id);
+  if (!(await ref.get()).exists) return false;
+  await ref.delete();
+  return true;
+}
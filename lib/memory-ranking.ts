@@ -0,0 +1,118 @@
+import { cosineSimilarity } from './vector-math';
+
+/**
+ * How search candidates are re-ranked after the vector query
+ */
+export interface RankingProfile {
+  /** Candidates fetched per requested result, so there is something to re-rank */
+  candidateMultiplier: number;
+  /** Age in days at which the recency factor halves (null: no time decay) */
+  halfLifeDays: number | null;
+  /** 0-1, share of the score that decays with age; the rest is pure similarity */
+  recencyWeight: number;
+  /** 0-1 maximal-marginal-relevance trade-off; 1 ignores diversity */
+  mmrLambda: number;
+  /** Candidates with a raw similarity below this are dropped */
+  minScore: number;
+  /** 0-1, how much importance scales the score: × (1 + w × (2 × importance - 1)) */
+  importanceWeight: number;
+}
+
+export const RANKING_PROFILES = {
+  /** Raw similarity top-K, as returned by the vector store */
+  raw: { candidateMultiplier: 1, halfLifeDays: null, recencyWeight: 0, mmrLambda: 1, minScore: 0, importanceWeight: 0 },
+  /** Default: mild recency boost and diversification */
+  balanced: { candidateMultiplier: 4, halfLifeDays: 30, recencyWeight: 0.3, mmrLambda: 0.7, minScore: 0.2, importanceWeight: 0.3 },
+  /** Strongly prefer the last few days, e.g. for "what happened recently" */
+  recent: { candidateMultiplier: 5, halfLifeDays: 7, recencyWeight: 0.6, mmrLambda: 0.7, minScore: 0.15, importanceWeight: 0.2 },
+  /** Spread results over different topics and calls */
+  diverse: { candidateMultiplier: 6, halfLifeDays: 90, recencyWeight: 0.2, mmrLambda: 0.5, minScore: 0.2, importanceWeight: 0.3 },
+} satisfies Record<string, RankingProfile>;
+
+export type RankingProfileName = keyof typeof RANKING_PROFILES;
+
+export function isRankingProfileName(value: unknown): value is RankingProfileName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RANKING_PROFILES, value);
+}
+
+export function resolveRankingProfile(profile: RankingProfileName | RankingProfile = 'balanced'): RankingProfile {
+  return typeof profile === 'string' ? RANKING_PROFILES[profile] : profile;
+}
+
+export interface RankingCandidate {
+  score: number;
+  timestamp: Date;
+  /** 0-1; 0.5 is neutral */
+  importance?: number;
+  values?: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Similarity adjusted for age: score * ((1 - w) + w * 0.5^(age / halfLife))
+ */
+export function recencyAdjustedScore(candidate: RankingCandidate, profile: RankingProfile, now: Date = new Date()): number {
+  if (profile.halfLifeDays === null || profile.recencyWeight === 0) {
+    return candidate.score;
+  }
+  const ageDays = Math.max(0, (now.getTime() - candidate.timestamp.getTime()) / DAY_MS);
+  const decay = Math.pow(0.5, ageDays / profile.halfLifeDays);
+  return candidate.score * ((1 - profile.recencyWeight) + profile.recencyWeight * decay);
+}
+
+/**
+ * Score scaled by importance: important memories gain up to importanceWeight, trivial ones lose as much
+ */
+export function importanceAdjustedScore(score: number, candidate: RankingCandidate, profile: RankingProfile): number {
+  if (profile.importanceWeight === 0 || candidate.importance === undefined) {
+    return score;
+  }
+  return score * (1 + profile.importanceWeight * (2 * candidate.importance - 1));
+}
+
+/**
+ * Re-rank candidates: drop those below the similarity threshold, apply time decay and importance,
+ * then pick results with maximal marginal relevance so near-duplicates don't crowd out others.
+ * Returned candidates carry the adjusted score.
+ */
+export function rankMemories<T extends RankingCandidate>(
+  candidates: T[],
+  limit: number,
+  profile: RankingProfile,
+  now: Date = new Date()
+): T[] {
+  const pool = candidates
+    .filter(candidate => candidate.score >= profile.minScore)
+    .map(candidate => ({
+      candidate,
+      relevance: importanceAdjustedScore(recencyAdjustedScore(candidate, profile, now), candidate, profile),
+    }));
+
+  const selected: typeof pool = [];
+  while (selected.length < limit && pool.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    pool.forEach((entry, index) => {
+      // Redundancy: similarity to the closest already selected result
+      let redundancy = 0;
+      if (profile.mmrLambda < 1 && entry.candidate.values) {
+        selected.forEach((chosen) => {
+          if (chosen.candidate.values) {
+            redundancy = Math.max(redundancy, cosineSimilarity(entry.candidate.values!, chosen.candidate.values));
+          }
+        });
+      }
+      const value = profile.mmrLambda * entry.relevance - (1 - profile.mmrLambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(pool.splice(bestIndex, 1)[0]);
+  }
+
+  return selected.map(entry => ({ ...entry.candidate, score: entry.relevance }));
+}
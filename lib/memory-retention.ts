@@ -0,0 +1,424 @@
+import type { DocumentReference } from 'firebase-admin/firestore';
+import { adminDb } from './firebase-admin';
+import { getUserVectorStore } from './vector-store';
+import { deleteMemoryDocuments } from './memory-documents';
+import { invalidateUserKeywordIndex } from './keyword-index';
+import { listUsersWithMemories } from './vector-memory';
+import type { MemoryType } from './vector-memory';
+import { chunkArray } from './batching';
+
+/**
+ * What a retention policy covers: each memory type, the raw call transcripts (`callmemory`, and
+ * failed writes waiting in `memoryOutbox`) and the facts extracted from calls (`users/{uid}/facts`)
+ */
+export type RetentionCategory = MemoryType | 'transcript' | 'fact';
+
+/**
+ * Days to keep each category; null keeps it forever
+ */
+export type RetentionPolicy = Record<RetentionCategory, number | null>;
+
+export const RETENTION_CATEGORIES: RetentionCategory[] = ['utterance', 'conversation', 'summary', 'note', 'transcript', 'fact'];
+
+// Applies until an admin stores a global policy: nothing expires unless an admin chose so
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  utterance: null,
+  conversation: null,
+  summary: null,
+  note: null,
+  transcript: null,
+  fact: null,
+};
+
+// Removed at the next purge when the user turns off "Save conversation history"
+const HISTORY_CATEGORIES: RetentionCategory[] = ['utterance', 'conversation', 'summary', 'transcript', 'fact'];
+
+export interface PurgeCounts {
+  utterance: number;
+  conversation: number;
+  summary: number;
+  note: number;
+  /** Memories the user asked Alex to forget (soft-deleted) */
+  forgotten: number;
+  transcript: number;
+  /** memoryOutbox entries, pending or dead-lettered (purged with transcripts) */
+  outbox: number;
+  fact: number;
+}
+
+export interface UserPurgeResult {
+  userId: string;
+  policy: RetentionPolicy;
+  removed: PurgeCounts;
+  memoryIds: string[];
+  /** callmemory documents (call IDs) */
+  callIds: string[];
+  outboxIds: string[];
+  factKeys: string[];
+}
+
+export interface PurgeReport {
+  runId: string | null;
+  dryRun: boolean;
+  startedAt: Date;
+  completedAt: Date;
+  users: number;
+  /** Users purged in this run; fewer than `users` when it stopped at the deadline */
+  processed: number;
+  removed: PurgeCounts;
+  failedUsers: string[];
+  /** Stopped early because the time budget ran out; a resuming run continues after `resumeAfter` */
+  stopped: 'deadline' | null;
+  resumeAfter: string | null;
+}
+
+export interface PurgeOptions {
+  /** Only purge these users (default: every user with memories or transcripts) */
+  userIds?: string[];
+  /** Report what would be removed without deleting */
+  dryRun?: boolean;
+  now?: Date;
+  onProgress?: (progress: { processed: number; total: number; userId: string }) => void;
+  /** Stop starting new users after this long, so the run finishes within the function's time limit */
+  deadlineMs?: number;
+  /**
+   * Continue after the user where the last resuming run stopped (Firestore `system/retentionPurgeCursor`)
+   * and save where this one stops; the cursor is cleared once a run reaches the last user
+   */
+  resume?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyCounts = (): PurgeCounts => ({
+  utterance: 0,
+  conversation: 0,
+  summary: 0,
+  note: 0,
+  forgotten: 0,
+  transcript: 0,
+  outbox: 0,
+  fact: 0,
+});
+
+/**
+ * Keep known categories with a non-negative number of days or null
+ */
+export function sanitizeRetentionPolicy(value: unknown): Partial<RetentionPolicy> {
+  const policy: Partial<RetentionPolicy> = {};
+  if (!value || typeof value !== 'object') return policy;
+
+  RETENTION_CATEGORIES.forEach((category) => {
+    const days = (value as Record<string, unknown>)[category];
+    if (days === null) {
+      policy[category] = null;
+    } else if (typeof days === 'number' && Number.isFinite(days) && days >= 0) {
+      policy[category] = days;
+    }
+  });
+  return policy;
+}
+
+/**
+ * Global policy from Firestore `system/retentionPolicy` (DEFAULT_RETENTION_POLICY for unset categories)
+ */
+export async function getGlobalRetentionPolicy(): Promise<RetentionPolicy> {
+  if (!adminDb) return { ...DEFAULT_RETENTION_POLICY };
+
+  const snapshot = await adminDb.collection('system').doc('retentionPolicy').get();
+  return { ...DEFAULT_RETENTION_POLICY, ...sanitizeRetentionPolicy(snapshot.data()?.policy) };
+}
+
+export async function setGlobalRetentionPolicy(policy: Partial<RetentionPolicy>): Promise<RetentionPolicy> {
+  if (!adminDb) throw new Error('Firebase Admin is not configured');
+
+  const merged = { ...(await getGlobalRetentionPolicy()), ...sanitizeRetentionPolicy(policy) };
+  await adminDb.collection('system').doc('retentionPolicy').set({ policy: merged, updatedAt: new Date() });
+  return merged;
+}
+
+/**
+ * Per-user overrides from Firestore `retentionPolicies/{uid}` (admin-managed)
+ */
+export async function getUserRetentionOverrides(userId: string): Promise<Partial<RetentionPolicy>> {
+  if (!adminDb) return {};
+
+  const snapshot = await adminDb.collection('retentionPolicies').doc(userId).get();
+  return sanitizeRetentionPolicy(snapshot.data()?.policy);
+}
+
+/**
+ * Replace a user's overrides; an empty policy removes them
+ */
+export async function setUserRetentionOverrides(userId: string, policy: Partial<RetentionPolicy>): Promise<Partial<RetentionPolicy>> {
+  if (!adminDb) throw new Error('Firebase Admin is not configured');
+
+  const overrides = sanitizeRetentionPolicy(policy);
+  const ref = adminDb.collection('retentionPolicies').doc(userId);
+  if (Object.keys(overrides).length === 0) {
+    await ref.delete();
+  } else {
+    await ref.set({ policy: overrides, updatedAt: new Date() });
+  }
+  return overrides;
+}
+
+/**
+ * The user's "Save conversation history" preference (`users/{uid}.saveConversationHistory`, default on)
+ */
+export async function isConversationHistoryEnabled(userId: string): Promise<boolean> {
+  if (!adminDb) return true;
+  const userDoc = await adminDb.collection('users').doc(userId).get();
+  return userDoc.get('saveConversationHistory') !== false;
+}
+
+/**
+ * Policy for one user: the global policy, the user's overrides, and their "Save conversation history"
+ * preference (`users/{uid}.saveConversationHistory`, default on). With history off, everything but
+ * notes is kept for 0 days.
+ */
+export async function getEffectiveRetentionPolicy(
+  userId: string,
+  globalPolicy?: RetentionPolicy
+): Promise<RetentionPolicy> {
+  const policy: RetentionPolicy = {
+    ...(globalPolicy || (await getGlobalRetentionPolicy())),
+    ...(await getUserRetentionOverrides(userId)),
+  };
+
+  if (!(await isConversationHistoryEnabled(userId))) {
+    HISTORY_CATEGORIES.forEach((category) => {
+      policy[category] = 0;
+    });
+  }
+  return policy;
+}
+
+const isExpired = (timestamp: unknown, days: number | null, now: Date): boolean => {
+  if (days === null || days === undefined) return false;
+  const time = new Date(String(timestamp)).getTime();
+  // Unparseable timestamps are kept rather than guessed
+  return !isNaN(time) && time <= now.getTime() - days * DAY_MS;
+};
+
+const FIRESTORE_BATCH_SIZE = 500;
+
+async function deleteDocuments(refs: DocumentReference[]): Promise<void> {
+  for (const group of chunkArray(refs, FIRESTORE_BATCH_SIZE)) {
+    const batch = adminDb!.batch();
+    group.forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * Remove one user's expired memories (vectors and Firestore `memories` docs), forgotten memories,
+ * expired `callmemory` transcripts and `memoryOutbox` entries, and facts not confirmed within the
+ * fact retention. Pinned memories are kept whatever their age.
+ */
+export async function purgeUserMemories(
+  userId: string,
+  policy: RetentionPolicy,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<UserPurgeResult> {
+  const now = options.now || new Date();
+  const removed = emptyCounts();
+  const store = getUserVectorStore(userId);
+
+  const expired = (await store.scan({ userId: { $eq: userId } })).filter((match) => {
+    const metadata = match.metadata;
+    if (metadata.deleted === true) {
+      removed.forgotten++;
+      return true;
+    }
+    if (metadata.pinned === true) return false;
+
+    const type = (String(metadata.type || 'utterance')) as MemoryType;
+    if (!isExpired(metadata.timestamp, policy[type] ?? null, now)) return false;
+    removed[type] = (removed[type] || 0) + 1;
+    return true;
+  });
+  const memoryIds = expired.map(match => match.id);
+
+  let callIds: string[] = [];
+  let outboxIds: string[] = [];
+  if (adminDb && policy.transcript !== null) {
+    const cutoff = new Date(now.getTime() - policy.transcript * DAY_MS);
+    const snapshot = await adminDb.collection('callmemory')
+      .where('userId', '==', userId)
+      .where('created_at', '<=', cutoff)
+      .get();
+    callIds = snapshot.docs.map(doc => doc.id);
+    removed.transcript = callIds.length;
+
+    // Queued writes carry the whole transcript, whether still retried or dead-lettered.
+    // A user has few of them, so they are filtered here rather than with another composite index.
+    const outbox = (await adminDb.collection('memoryOutbox').where('userId', '==', userId).get()).docs
+      .filter(doc => (doc.get('createdAt')?.toMillis?.() ?? Infinity) <= cutoff.getTime());
+    outboxIds = outbox.map(doc => doc.id);
+    removed.outbox = outboxIds.length;
+
+    if (!options.dryRun) {
+      await deleteDocuments([...snapshot.docs, ...outbox].map(doc => doc.ref));
+    }
+  }
+
+  let factKeys: string[] = [];
+  if (adminDb && policy.fact !== null) {
+    // A fact restated in a later call is updated, so its age is the last time it was confirmed
+    const cutoff = new Date(now.getTime() - policy.fact * DAY_MS);
+    const snapshot = await adminDb.collection('users').doc(userId).collection('facts')
+      .where('updatedAt', '<=', cutoff)
+      .get();
+    factKeys = snapshot.docs.map(doc => doc.id);
+    removed.fact = factKeys.length;
+
+    if (!options.dryRun) {
+      await deleteDocuments(snapshot.docs.map(doc => doc.ref));
+    }
+  }
+
+  if (!options.dryRun && memoryIds.length > 0) {
+    for (const group of chunkArray(memoryIds, 100)) {
+      await store.deleteMany(group);
+    }
+    await deleteMemoryDocuments(memoryIds);
+    invalidateUserKeywordIndex(userId);
+  }
+
+  return { userId, policy, removed, memoryIds, callIds, outboxIds, factKeys };
+}
+
+/**
+ * Users with memories in the vector store, transcripts in `callmemory` or `memoryOutbox`, or facts
+ */
+async function listUsersToPurge(): Promise<string[]> {
+  const userIds = new Set(await listUsersWithMemories());
+  if (adminDb) {
+    for (const collection of ['callmemory', 'memoryOutbox']) {
+      const snapshot = await adminDb.collection(collection).select('userId').get();
+      snapshot.docs.forEach((doc) => {
+        const userId = doc.get('userId');
+        if (typeof userId === 'string' && userId) userIds.add(userId);
+      });
+    }
+    const facts = await adminDb.collectionGroup('facts').select().get();
+    facts.docs.forEach((doc) => {
+      const userId = doc.ref.parent.parent?.id;
+      if (userId) userIds.add(userId);
+    });
+  }
+  return Array.from(userIds).sort();
+}
+
+/**
+ * Apply the retention policies to every user (or the given ones) and record what was removed in
+ * Firestore `retentionPurges/{runId}`, with one `users/{uid}` entry per user that lost anything.
+ * A user that fails is logged and skipped; the next pass over them retries them.
+ */
+export async function purgeExpiredMemories(options: PurgeOptions = {}): Promise<PurgeReport> {
+  const startedAt = new Date();
+  const now = options.now || startedAt;
+  const dryRun = options.dryRun === true;
+  const globalPolicy = await getGlobalRetentionPolicy();
+  let userIds = options.userIds || (await listUsersToPurge());
+
+  // User IDs are sorted, so the cursor is the last user a stopped run got through
+  const cursorRef = adminDb && options.resume && !dryRun && !options.userIds
+    ? adminDb.collection('system').doc('retentionPurgeCursor')
+    : null;
+  if (cursorRef) {
+    const after = (await cursorRef.get()).get('afterUserId');
+    if (typeof after === 'string') {
+      userIds = userIds.filter(userId => userId > after);
+    }
+  }
+
+  const runRef = adminDb && !dryRun ? adminDb.collection('retentionPurges').doc() : null;
+  if (runRef) {
+    await runRef.set({ status: 'running', startedAt, globalPolicy, users: userIds.length });
+  }
+
+  const removed = emptyCounts();
+  const failedUsers: string[] = [];
+  let processed = 0;
+  let stopped: PurgeReport['stopped'] = null;
+
+  for (let i = 0; i < userIds.length; i++) {
+    if (options.deadlineMs && Date.now() - startedAt.getTime() > options.deadlineMs) {
+      stopped = 'deadline';
+      break;
+    }
+
+    const userId = userIds[i];
+    processed++;
+    try {
+      const policy = await getEffectiveRetentionPolicy(userId, globalPolicy);
+      const result = await purgeUserMemories(userId, policy, { dryRun, now });
+
+      const total = result.memoryIds.length + result.callIds.length + result.outboxIds.length + result.factKeys.length;
+      (Object.keys(removed) as Array<keyof PurgeCounts>).forEach((key) => {
+        removed[key] += result.removed[key];
+      });
+      if (runRef && total > 0) {
+        await runRef.collection('users').doc(userId).set({
+          policy: result.policy,
+          removed: result.removed,
+          memoryIds: result.memoryIds,
+          callIds: result.callIds,
+          outboxIds: result.outboxIds,
+          factKeys: result.factKeys,
+          purgedAt: new Date(),
+        });
+      }
+    } catch (error) {
+      console.error(`Error purging memories for user ${userId}:`, error);
+      failedUsers.push(userId);
+    }
+    options.onProgress?.({ processed: i + 1, total: userIds.length, userId });
+  }
+
+  const report: PurgeReport = {
+    runId: runRef?.id || null,
+    dryRun,
+    startedAt,
+    completedAt: new Date(),
+    users: userIds.length,
+    processed,
+    removed,
+    failedUsers,
+    stopped,
+    resumeAfter: stopped && processed > 0 ? userIds[processed - 1] : null,
+  };
+  if (cursorRef) {
+    if (report.resumeAfter) {
+      await cursorRef.set({ afterUserId: report.resumeAfter, runId: report.runId, updatedAt: new Date() });
+    } else if (!stopped) {
+      await cursorRef.delete();
+    }
+  }
+  if (runRef) {
+    await runRef.set({ status: stopped ? 'stopped' : 'completed', ...report }, { merge: true });
+  }
+
+  console.log(`Retention purge ${dryRun ? '(dry run) ' : ''}over ${processed} of ${userIds.length} users:`, removed);
+  return report;
+}
+
+/**
+ * Most recent purge runs, newest first
+ */
+export async function listPurgeRuns(limit: number = 10): Promise<Array<Record<string, any>>> {
+  if (!adminDb) return [];
+
+  const snapshot = await adminDb.collection('retentionPurges').orderBy('startedAt', 'desc').limit(limit).get();
+  return snapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      ...data,
+      startedAt: data.startedAt?.toDate?.() || null,
+      completedAt: data.completedAt?.toDate?.() || null,
+    };
+  });
+}
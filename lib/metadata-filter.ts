@@ -0,0 +1,27 @@
+import type { MemoryMetadata, MetadataFilter } from './vector-store';
+
+/**
+ * Check a metadata object against a Pinecone-style filter
+ */
+export function matchesFilter(metadata: MemoryMetadata, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+
+  return Object.keys(filter).every((field) => {
+    const condition = filter[field];
+    const value = metadata[field];
+
+    if (typeof condition !== 'object' || condition === null) {
+      return Array.isArray(value) ? value.includes(String(condition)) : value === condition;
+    }
+
+    if (condition.$eq !== undefined && value !== condition.$eq) return false;
+    if (condition.$ne !== undefined && value === condition.$ne) return false;
+    if (condition.$in && !condition.$in.includes(value as string | number)) return false;
+    if (condition.$nin && condition.$nin.includes(value as string | number)) return false;
+    if (condition.$gt !== undefined && !(typeof value === 'number' && value > condition.$gt)) return false;
+    if (condition.$gte !== undefined && !(typeof value === 'number' && value >= condition.$gte)) return false;
+    if (condition.$lt !== undefined && !(typeof value === 'number' && value < condition.$lt)) return false;
+    if (condition.$lte !== undefined && !(typeof value === 'number' && value <= condition.$lte)) return false;
+    return true;
+  });
+}
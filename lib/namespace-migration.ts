@@ -0,0 +1,174 @@
+import { adminDb } from './firebase-admin';
+import { getVectorStore, userNamespace } from './vector-store';
+import { invalidateUserKeywordIndex } from './keyword-index';
+import { backfillMemoryDocuments } from './memory-documents';
+import { toDate } from './firestore-dates';
+import type { VectorRecord } from './vector-store';
+
+/**
+ * State of the move from the shared (default) namespace into per-user namespaces
+ */
+export interface NamespaceMigrationProgress {
+  status: 'idle' | 'running' | 'paused' | 'completed' | 'failed';
+  /** Records moved into a user namespace so far */
+  migrated: number;
+  /** Records without a userId, moved to the unassigned namespace */
+  unassigned: number;
+  batches: number;
+  /** Records left in the shared namespace (as reported by the store) */
+  remaining: number;
+  startedAt: Date | null;
+  updatedAt: Date | null;
+  completedAt: Date | null;
+  error?: string;
+}
+
+export interface NamespaceMigrationOptions {
+  /** Records moved per batch (default 100) */
+  batchSize?: number;
+  /** Stop after this many batches; call again to continue (default: run to completion) */
+  maxBatches?: number;
+  onProgress?: (progress: NamespaceMigrationProgress) => void;
+}
+
+// Records that can't be attributed to a user are kept here instead of being dropped
+export const UNASSIGNED_NAMESPACE = 'unassigned';
+
+const INITIAL_PROGRESS: NamespaceMigrationProgress = {
+  status: 'idle',
+  migrated: 0,
+  unassigned: 0,
+  batches: 0,
+  remaining: 0,
+  startedAt: null,
+  updatedAt: null,
+  completedAt: null,
+};
+
+// Used when Firebase Admin is not configured (progress survives only for the process lifetime)
+let localProgress: NamespaceMigrationProgress = { ...INITIAL_PROGRESS };
+
+const progressDoc = () => adminDb?.collection('system').doc('vectorNamespaceMigration');
+
+/**
+ * Get the stored migration progress
+ */
+export async function getNamespaceMigrationProgress(): Promise<NamespaceMigrationProgress> {
+  const doc = progressDoc();
+  if (!doc) return localProgress;
+
+  const snapshot = await doc.get();
+  if (!snapshot.exists) return { ...INITIAL_PROGRESS };
+
+  const data = snapshot.data()!;
+  return {
+    ...INITIAL_PROGRESS,
+    ...data,
+    startedAt: toDate(data.startedAt),
+    updatedAt: toDate(data.updatedAt),
+    completedAt: toDate(data.completedAt),
+  } as NamespaceMigrationProgress;
+}
+
+async function saveProgress(progress: NamespaceMigrationProgress): Promise<void> {
+  const doc = progressDoc();
+  if (!doc) {
+    localProgress = progress;
+    return;
+  }
+  // Firestore rejects undefined fields
+  const { error, ...rest } = progress;
+  await doc.set({ ...rest, ...(error ? { error } : {}) });
+}
+
+async function countShared(): Promise<number> {
+  const namespaces = await getVectorStore().listNamespaces();
+  return namespaces.find(info => info.name === '')?.recordCount || 0;
+}
+
+/**
+ * Move vectors from the shared namespace into per-user namespaces.
+ * Each batch is upserted into the target namespace before it is deleted from the shared one,
+ * so an interrupted run can simply be started again; progress is kept in Firestore
+ * `system/vectorNamespaceMigration`.
+ */
+export async function migrateToUserNamespaces(
+  options: NamespaceMigrationOptions = {}
+): Promise<NamespaceMigrationProgress> {
+  const batchSize = options.batchSize || 100;
+  const shared = getVectorStore();
+  const now = new Date();
+
+  let progress: NamespaceMigrationProgress = {
+    ...(await getNamespaceMigrationProgress()),
+    status: 'running',
+    updatedAt: now,
+    error: undefined,
+  };
+  if (!progress.startedAt) progress.startedAt = now;
+
+  try {
+    let batchesThisRun = 0;
+    for (;;) {
+      if (options.maxBatches !== undefined && batchesThisRun >= options.maxBatches) {
+        progress.status = 'paused';
+        break;
+      }
+
+      // Moved records are deleted, so the first page always holds the next batch
+      const page = await shared.listIds({ limit: batchSize });
+      if (page.ids.length === 0) {
+        progress.status = 'completed';
+        progress.completedAt = new Date();
+        break;
+      }
+
+      const records = await shared.fetch(page.ids);
+      const byNamespace = new Map<string, VectorRecord[]>();
+      records.forEach((record) => {
+        const userId = String(record.metadata.userId || '');
+        const namespace = userId ? userNamespace(userId) : UNASSIGNED_NAMESPACE;
+        byNamespace.set(namespace, [...(byNamespace.get(namespace) || []), record]);
+      });
+
+      for (const [namespace, group] of Array.from(byNamespace.entries())) {
+        await shared.namespace(namespace).upsert(group);
+        if (namespace === UNASSIGNED_NAMESPACE) {
+          progress.unassigned += group.length;
+        } else {
+          // Records from the shared namespace predate the memory documents that listing reads
+          await backfillMemoryDocuments(group);
+          progress.migrated += group.length;
+        }
+      }
+      await shared.deleteMany(page.ids);
+
+      records.forEach((record) => {
+        if (record.metadata.userId) invalidateUserKeywordIndex(String(record.metadata.userId));
+      });
+
+      batchesThisRun++;
+      progress.batches++;
+      progress.remaining = await countShared();
+      progress.updatedAt = new Date();
+      await saveProgress(progress);
+      options.onProgress?.(progress);
+    }
+
+    progress.remaining = await countShared();
+    progress.updatedAt = new Date();
+    await saveProgress(progress);
+    options.onProgress?.(progress);
+
+    console.log(
+      `Namespace migration ${progress.status}: ${progress.migrated} migrated, ` +
+      `${progress.unassigned} unassigned, ${progress.remaining} remaining`
+    );
+    return progress;
+  } catch (error) {
+    console.error('Error migrating vectors to user namespaces:', error);
+    progress = { ...progress, status: 'failed', error: (error as Error)?.message || String(error), updatedAt: new Date() };
+    await saveProgress(progress).catch(() => {});
+    throw error;
+  }
+}
@@ -0,0 +1,16 @@
+import OpenAI from 'openai';
+
+// Initialize OpenAI (lazy initialization)
+let openaiClient: OpenAI | null = null;
+
+export const getOpenAIClient = () => {
+  if (!openaiClient) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+    openaiClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openaiClient;
+};
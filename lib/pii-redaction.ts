@@ -0,0 +1,181 @@
+import { adminDb } from './firebase-admin';
+import { envInt } from './batching';
+
+/**
+ * Masking of sensitive entities (emails, phone and card numbers, SSNs, street addresses) in memory
+ * text before it is embedded and stored. Which types are masked is an admin setting in Firestore
+ * `system/redactionPolicy`; by default all of them are.
+ */
+
+export type PiiType = 'email' | 'phone' | 'card' | 'ssn' | 'address';
+
+export const PII_TYPES: PiiType[] = ['email', 'phone', 'card', 'ssn', 'address'];
+
+// Every type, with zeros, so that a stored count map fully replaces the previous one
+export type RedactionCounts = Record<PiiType, number>;
+
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+  /** Total number of masked entities */
+  total: number;
+  /** Types with at least one masked entity */
+  types: PiiType[];
+}
+
+const MASKS: Record<PiiType, string> = {
+  email: '[email]',
+  phone: '[phone number]',
+  card: '[card number]',
+  ssn: '[SSN]',
+  address: '[address]',
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+const DIGIT_WORD = '(?:zero|oh|one|two|three|four|five|six|seven|eight|nine)';
+
+const SPOKEN_EMAIL_FALSE_STARTS = /^(?:i|was|is|am|are|were|be|been|me|him|her|us|them|it|that|this|look|looked|looking|go|went|sign|signed)\s+at\s/i;
+
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Dr|Ct|Pl|Terrace|Parkway|Pkwy|Highway|Hwy)';
+
+// Also ordinary words ("2 Dogs Way", "3 Little Court cases"): these need a house number of two or
+// more digits and must not run on into the rest of a sentence
+const AMBIGUOUS_STREET_SUFFIX = '(?:Way|Court|Place|Circle|Drive)';
+
+const UNIT = `(?:,?\\s+(?:Apt|Apartment|Unit|Suite)\\.?\\s*#?\\w+)?`;
+
+/**
+ * Counting ("one, two, three, ...") or counting down: every digit one more, or one less, than the last
+ */
+function isCounting(match: string): boolean {
+  const digits = match.toLowerCase().split(/[\s,-]+/).map(word => parseInt(DIGIT_WORDS[word], 10));
+  const steps = digits.slice(1).map((digit, i) => digit - digits[i]);
+  return steps.every(step => step === 1) || steps.every(step => step === -1);
+}
+
+/**
+ * Luhn checksum, so that long numbers that aren't card numbers (order numbers, IDs) are left alone
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const isCardNumber = (digits: string) => digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+
+// Applied in this order: card numbers before phone numbers, phone numbers before addresses
+const DETECTORS: Array<{ type: PiiType; pattern: RegExp; accept?: (match: string) => boolean }> = [
+  { type: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  // As transcribed from speech: "john dot smith at gmail dot com"
+  {
+    type: 'email',
+    pattern: /\b[a-z0-9]+(?:\s+dot\s+[a-z0-9]+)*\s+at\s+[a-z0-9]+(?:\s+dot\s+[a-z0-9]+)*\s+dot\s+(?:com|net|org|edu|gov|co|us|uk|io)\b/gi,
+    // "I was at google dot com" is a website, not an address
+    accept: match => !SPOKEN_EMAIL_FALSE_STARTS.test(match),
+  },
+  { type: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: match => isCardNumber(match.replace(/\D/g, '')) },
+  { type: 'ssn', pattern: /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g },
+  { type: 'phone', pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])?\b\d{3}[\s.-]\d{4}\b/g },
+  { type: 'phone', pattern: /(?:\+|\b)\d{10,12}\b/g },
+  // Numbers read out digit by digit: "five five five, one two three four"
+  {
+    type: 'card',
+    pattern: new RegExp(`\\b${DIGIT_WORD}(?:[\\s,-]+${DIGIT_WORD}){12,18}\\b`, 'gi'),
+    accept: match => isCardNumber(match.toLowerCase().split(/[\s,-]+/).map(word => DIGIT_WORDS[word]).join('')),
+  },
+  {
+    type: 'phone',
+    pattern: new RegExp(`\\b${DIGIT_WORD}(?:[\\s,-]+${DIGIT_WORD}){6,}\\b`, 'gi'),
+    accept: match => !isCounting(match),
+  },
+  {
+    type: 'address',
+    pattern: new RegExp(`\\b\\d{1,6}\\s+(?:[A-Z][A-Za-z'.-]*\\s+){1,4}${STREET_SUFFIX}\\b\\.?${UNIT}`, 'g'),
+  },
+  {
+    type: 'address',
+    pattern: new RegExp(`\\b\\d{2,6}\\s+(?:[A-Z][A-Za-z'.-]*\\s+){1,4}${AMBIGUOUS_STREET_SUFFIX}\\b(?!\\s+[a-z])\\.?${UNIT}`, 'g'),
+  },
+  { type: 'address', pattern: /\bP\.?\s?O\.?\s+Box\s+\d+\b/gi },
+];
+
+/**
+ * Mask the given entity types in text; returns the masked text and what was masked
+ */
+export function redactText(text: string, types: PiiType[] = PII_TYPES): RedactionResult {
+  const counts = {} as RedactionCounts;
+  PII_TYPES.forEach((type) => { counts[type] = 0; });
+  let total = 0;
+  let redacted = text;
+
+  DETECTORS.forEach(({ type, pattern, accept }) => {
+    if (types.indexOf(type) === -1) return;
+    redacted = redacted.replace(pattern, (match) => {
+      if (accept && !accept(match)) return match;
+      counts[type]++;
+      total++;
+      return MASKS[type];
+    });
+  });
+
+  return { text: redacted, counts, total, types: PII_TYPES.filter(type => counts[type] > 0) };
+}
+
+const sanitizeTypes = (value: unknown): PiiType[] =>
+  (Array.isArray(value) ? PII_TYPES.filter(type => value.indexOf(type) !== -1) : PII_TYPES.slice());
+
+let cachedTypes: PiiType[] | null = null;
+let loadedAt = 0;
+
+/**
+ * Entity types to mask, from Firestore `system/redactionPolicy` (cached for REDACTION_POLICY_TTL_MS,
+ * default 60s). All types without Firebase Admin or a stored policy; an empty list turns redaction off.
+ */
+export async function getRedactedTypes(force: boolean = false): Promise<PiiType[]> {
+  if (cachedTypes && !force && Date.now() - loadedAt < envInt('REDACTION_POLICY_TTL_MS', 60 * 1000)) {
+    return cachedTypes;
+  }
+  if (!adminDb) return PII_TYPES;
+
+  try {
+    const snapshot = await adminDb.collection('system').doc('redactionPolicy').get();
+    cachedTypes = snapshot.exists ? sanitizeTypes(snapshot.get('types')) : PII_TYPES.slice();
+  } catch (error) {
+    console.error('Error loading redaction policy:', error);
+    // Keep the last known policy; mask everything if there is none
+    if (!cachedTypes) cachedTypes = PII_TYPES.slice();
+  }
+  loadedAt = Date.now();
+  return cachedTypes;
+}
+
+export async function setRedactedTypes(types: unknown): Promise<PiiType[]> {
+  if (!adminDb) throw new Error('Firebase Admin is not configured');
+
+  const sanitized = sanitizeTypes(types);
+  await adminDb.collection('system').doc('redactionPolicy').set({ types: sanitized, updatedAt: new Date() });
+  cachedTypes = sanitized;
+  loadedAt = Date.now();
+  return sanitized;
+}
+
+/**
+ * Transcript lines with their text masked per the admin policy, for anything that keeps or sends
+ * them on (queued writes, fact extraction)
+ */
+export async function redactTranscripts<T extends { text: string }>(transcripts: T[]): Promise<T[]> {
+  const types = await getRedactedTypes();
+  return transcripts.map(line => ({ ...line, text: redactText(line.text, types).text }));
+}
@@ -0,0 +1,170 @@
+import { Pinecone, Errors } from '@pinecone-database/pinecone';
+import { forEachIdPage } from './vector-pagination';
+import { matchesFilter } from './metadata-filter';
+import { getCircuitBreaker } from './circuit-breaker';
+import type { VectorStore, VectorMatch, VectorRecord, MemoryMetadata, NamespaceInfo } from './vector-store';
+
+// Initialize Pinecone (lazy initialization)
+let pineconeClient: Pinecone | null = null;
+
+const getPineconeClient = () => {
+  if (!pineconeClient) {
+    if (!process.env.PINECONE_API_KEY) {
+      throw new Error('PINECONE_API_KEY is not configured');
+    }
+    pineconeClient = new Pinecone({
+      apiKey: process.env.PINECONE_API_KEY,
+    });
+  }
+  return pineconeClient;
+};
+
+// Pinecone allows up to 1000 IDs per delete
+const DELETE_BATCH_SIZE = 1000;
+
+// Fetch IDs are sent as query parameters; keep requests well below URL limits
+const FETCH_BATCH_SIZE = 100;
+
+// Pinecone returns at most 100 IDs per list page
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * Vector store backed by a Pinecone serverless index
+ */
+export function createPineconeStore(indexName: string, namespaceName = ''): VectorStore {
+  const getIndex = () => getPineconeClient().index<MemoryMetadata>(indexName).namespace(namespaceName);
+  // Every request goes through the Pinecone circuit breaker
+  const call = <T>(request: () => Promise<T>): Promise<T> => getCircuitBreaker('pinecone').run(request);
+
+  const toMatches = (matches: Array<{ id: string; score?: number; metadata?: MemoryMetadata; values?: number[] }>): VectorMatch[] =>
+    matches.map((match) => ({
+      id: match.id,
+      score: match.score || 0,
+      metadata: match.metadata || {},
+      ...(match.values && match.values.length > 0 ? { values: match.values } : {}),
+    }));
+
+  const store: VectorStore = {
+    name: 'pinecone',
+    namespaceName,
+
+    namespace(name: string) {
+      return createPineconeStore(indexName, name);
+    },
+
+    async listNamespaces() {
+      const stats = await call(() => getPineconeClient().index(indexName).describeIndexStats());
+      return Object.entries(stats.namespaces || {})
+        .map(([name, summary]): NamespaceInfo => ({ name, recordCount: summary.recordCount }))
+        .filter(info => info.recordCount > 0);
+    },
+
+    async initialize(dimension: number) {
+      const pinecone = getPineconeClient();
+
+      // Check if index exists
+      const indexes = await pinecone.listIndexes();
+      const indexExists = indexes.indexes?.some(idx => idx.name === indexName);
+
+      if (!indexExists) {
+        // Create index if it doesn't exist
+        await pinecone.createIndex({
+          name: indexName,
+          dimension,
+          metric: 'cosine',
+          spec: {
+            serverless: {
+              cloud: 'aws',
+              region: 'us-east-1',
+            },
+          },
+        });
+        console.log('Pinecone index created:', indexName);
+      } else {
+        // An index created for another embedding model cannot be queried with these vectors
+        const description = await pinecone.describeIndex(indexName);
+        if (description.dimension !== dimension) {
+          throw new Error(
+            `Pinecone index ${indexName} has dimension ${description.dimension}, but the embedding provider produces ${dimension}`
+          );
+        }
+        console.log('Pinecone index already exists:', indexName);
+      }
+    },
+
+    async upsert(records) {
+      if (records.length === 0) return;
+      await call(() => getIndex().upsert(records));
+    },
+
+    async query({ vector, topK, filter, includeValues }) {
+      const queryResponse = await call(() => getIndex().query({
+        vector,
+        topK,
+        includeMetadata: true,
+        includeValues: !!includeValues,
+        filter,
+      }));
+      return toMatches(queryResponse.matches || []);
+    },
+
+    async scan(filter, { prefix } = {}) {
+      // Page through IDs and filter fetched metadata in process; a query can't enumerate
+      // more than 10,000 records, and its ranking would be meaningless here
+      const matches: VectorMatch[] = [];
+      await forEachIdPage(store, async (ids) => {
+        const records = await store.fetch(ids);
+        records.forEach((record) => {
+          if (matchesFilter(record.metadata, filter)) {
+            matches.push({ id: record.id, score: 0, metadata: record.metadata });
+          }
+        });
+      }, { prefix });
+      return matches;
+    },
+
+    async fetch(ids) {
+      const index = getIndex();
+      const records: VectorRecord[] = [];
+      for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+        const response = await call(() => index.fetch(ids.slice(i, i + FETCH_BATCH_SIZE)));
+        Object.values(response.records || {}).forEach((record) => {
+          records.push({ id: record.id, values: record.values, metadata: record.metadata || {} });
+        });
+      }
+      return records;
+    },
+
+    async deleteMany(ids) {
+      const index = getIndex();
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await call(() => index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE)));
+      }
+    },
+
+    async listIds({ prefix, limit = LIST_PAGE_SIZE, cursor } = {}) {
+      const response = await call(() => getIndex().listPaginated({
+        prefix,
+        limit: Math.min(limit, LIST_PAGE_SIZE),
+        paginationToken: cursor,
+      }));
+      return {
+        ids: (response.vectors || []).map(vector => vector.id).filter((id): id is string => !!id),
+        ...(response.pagination?.next ? { nextCursor: response.pagination.next } : {}),
+      };
+    },
+
+    async deleteAll() {
+      try {
+        await call(() => getIndex().deleteAll());
+      } catch (error) {
+        // Serverless indexes report namespaces without records as not found
+        if (!(error instanceof Errors.PineconeNotFoundError)) {
+          throw error;
+        }
+      }
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { adminAuth } from './firebase-admin';
+
+/**
+ * UID from the Firebase ID token in the Authorization header, or null if missing or invalid
+ */
+export async function getAuthenticatedUserId(request: NextRequest): Promise<string | null> {
+  const token = request.headers.get('Authorization')?.split('Bearer ')[1];
+  if (!token || !adminAuth) {
+    return null;
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(token);
+    return decodedToken.uid;
+  } catch (error) {
+    console.error('Error verifying ID token:', error);
+    return null;
+  }
+}
+
+/**
+ * Check a scheduled invocation: Vercel sends `Authorization: Bearer ${CRON_SECRET}`.
+ * Returns the error response to send, or null when the request may run.
+ */
+export function checkCronRequest(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Server configuration error: Missing CRON_SECRET' },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
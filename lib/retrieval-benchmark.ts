@@ -0,0 +1,230 @@
+import { storeConversationMemory, storeMemories, buildMemoryId, searchMemories, buildCallContext } from './vector-memory';
+import type { MemorySearchResult } from './vector-memory';
+import { formatCallSummary } from './call-summary';
+import type { CallSummary } from './call-summary';
+import type { RankingProfileName } from './memory-ranking';
+
+/**
+ * Offline evaluation of memory retrieval: fixture conversations are stored through the normal
+ * pipeline, then labeled "should remember" questions are searched and scored.
+ * Meant to run against the local embedder and vector store (see scripts/benchmark-retrieval.ts).
+ */
+
+export interface BenchmarkCall {
+  callId: string;
+  /** How long before the run the call took place */
+  daysAgo: number;
+  transcript: Array<{ speaker: string; text: string }>;
+  /** Post-call summary, stored as it would be by summarizeCall() (no LLM involved) */
+  summary?: CallSummary;
+}
+
+export interface BenchmarkQuestion {
+  id: string;
+  query: string;
+  /** Facts that should come back, as phrases; a memory containing one of them counts as relevant */
+  expected: string[];
+}
+
+export interface BenchmarkUser {
+  userId: string;
+  userName: string;
+  calls: BenchmarkCall[];
+  questions: BenchmarkQuestion[];
+}
+
+export interface BenchmarkFixture {
+  users: BenchmarkUser[];
+}
+
+export interface BenchmarkConfig {
+  /** Shown in the report; defaults to "<ranking>, keywords <keywordWeight>" */
+  label?: string;
+  ranking?: RankingProfileName;
+  keywordWeight?: number;
+  /** Memories in the call context (default 6, as for a new call) */
+  maxMemories?: number;
+  /** Context token budget (default CONTEXT_TOKEN_BUDGET) */
+  maxTokens?: number;
+}
+
+export interface QuestionResult {
+  userId: string;
+  questionId: string;
+  /** 1-based rank of the first relevant memory, null if none was retrieved */
+  firstRelevantRank: number | null;
+  /** Share of the expected facts found in the top k, by k */
+  recallAtK: Record<number, number>;
+  /** Share of the expected facts that made it into the call context */
+  contextRecall: number;
+  contextTokens: number;
+  missing: string[];
+}
+
+export interface BenchmarkReport {
+  label: string;
+  questions: number;
+  recallAtK: Record<number, number>;
+  mrr: number;
+  contextRecall: number;
+  avgContextTokens: number;
+  maxContextTokens: number;
+  results: QuestionResult[];
+}
+
+export const DEFAULT_CUTOFFS = [1, 3, 5, 10];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Expected facts found in any of the given texts
+ */
+export function foundFacts(texts: string[], expected: string[]): string[] {
+  const haystack = texts.map(normalize);
+  return expected.filter(fact => haystack.some(text => text.indexOf(normalize(fact)) !== -1));
+}
+
+/**
+ * Share of the expected facts found in the first k results
+ */
+export function recallAt(results: Array<{ text: string }>, expected: string[], k: number): number {
+  if (expected.length === 0) return 1;
+  return foundFacts(results.slice(0, k).map(result => result.text), expected).length / expected.length;
+}
+
+/**
+ * 1-based rank of the first result that contains an expected fact (null if none does)
+ */
+export function firstRelevantRank(results: Array<{ text: string }>, expected: string[]): number | null {
+  const index = results.findIndex(result => foundFacts([result.text], expected).length > 0);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Store the fixture conversations (transcripts and summaries) with their call dates
+ */
+export async function loadBenchmarkFixture(fixture: BenchmarkFixture, now: Date = new Date()): Promise<void> {
+  for (const user of fixture.users) {
+    for (const call of user.calls) {
+      const timestamp = new Date(now.getTime() - call.daysAgo * DAY_MS);
+      await storeConversationMemory(user.userId, call.callId, call.transcript, { timestamp });
+
+      if (call.summary) {
+        await storeMemories(user.userId, call.callId, [{
+          memoryId: buildMemoryId(user.userId, call.callId, 'summary', call.callId),
+          text: formatCallSummary(call.summary),
+          type: 'summary',
+          speaker: 'summary',
+          callId: call.callId,
+          timestamp,
+          extraMetadata: {
+            topics: call.summary.topics,
+            people: call.summary.people,
+            emotionalTone: call.summary.emotionalTone,
+            followUps: call.summary.followUps,
+          },
+        }]);
+      }
+    }
+  }
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+/**
+ * Search every question with one configuration and score the results and the call context.
+ * The fixture must already be loaded (loadBenchmarkFixture).
+ */
+export async function runRetrievalBenchmark(
+  fixture: BenchmarkFixture,
+  config: BenchmarkConfig = {},
+  cutoffs: number[] = DEFAULT_CUTOFFS
+): Promise<BenchmarkReport> {
+  const ranking = config.ranking || 'balanced';
+  const keywordWeight = config.keywordWeight ?? 0.3;
+  const maxK = Math.max(...cutoffs);
+  const results: QuestionResult[] = [];
+
+  for (const user of fixture.users) {
+    for (const question of user.questions) {
+      const retrieved: MemorySearchResult[] = await searchMemories(user.userId, question.query, maxK, { ranking, keywordWeight });
+      const context = await buildCallContext(user.userId, [question.query], {
+        maxMemories: config.maxMemories ?? 6,
+        maxTokens: config.maxTokens,
+        userName: user.userName,
+        ranking,
+        keywordWeight,
+      });
+
+      const recallAtK: Record<number, number> = {};
+      cutoffs.forEach((k) => {
+        recallAtK[k] = recallAt(retrieved, question.expected, k);
+      });
+      const inContext = context.source === 'memories' ? foundFacts([context.context], question.expected) : [];
+
+      results.push({
+        userId: user.userId,
+        questionId: question.id,
+        firstRelevantRank: firstRelevantRank(retrieved, question.expected),
+        recallAtK,
+        contextRecall: question.expected.length > 0 ? inContext.length / question.expected.length : 1,
+        contextTokens: context.tokens,
+        missing: question.expected.filter(fact => foundFacts(retrieved.map(result => result.text), [fact]).length === 0),
+      });
+    }
+  }
+
+  const recallAtK: Record<number, number> = {};
+  cutoffs.forEach((k) => {
+    recallAtK[k] = average(results.map(result => result.recallAtK[k]));
+  });
+
+  return {
+    label: config.label || `${ranking}, keywords ${keywordWeight}`,
+    questions: results.length,
+    recallAtK,
+    mrr: average(results.map(result => (result.firstRelevantRank ? 1 / result.firstRelevantRank : 0))),
+    contextRecall: average(results.map(result => result.contextRecall)),
+    avgContextTokens: Math.round(average(results.map(result => result.contextTokens))),
+    maxContextTokens: Math.max(0, ...results.map(result => result.contextTokens)),
+    results,
+  };
+}
+
+/**
+ * Plain-text table of reports, one row per configuration, followed by the questions whose
+ * expected facts were not retrieved (with the first report's configuration)
+ */
+export function formatBenchmarkReports(reports: BenchmarkReport[]): string {
+  if (reports.length === 0) return 'No benchmark runs.';
+
+  const cutoffs = Object.keys(reports[0].recallAtK).map(Number);
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const header = ['configuration', ...cutoffs.map(k => `recall@${k}`), 'MRR', 'context recall', 'context tokens (avg/max)'];
+  const rows = reports.map(report => [
+    report.label,
+    ...cutoffs.map(k => percent(report.recallAtK[k])),
+    report.mrr.toFixed(3),
+    percent(report.contextRecall),
+    `${report.avgContextTokens}/${report.maxContextTokens}`,
+  ]);
+
+  const widths = header.map((cell, i) => Math.max(cell.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ');
+  const lines = [
+    `${reports[0].questions} questions`,
+    '',
+    line(header),
+    line(widths.map(width => '-'.repeat(width))),
+    ...rows.map(line),
+  ];
+
+  const misses = reports[0].results.filter(result => result.missing.length > 0);
+  if (misses.length > 0) {
+    lines.push('', `Not retrieved in the top ${Math.max(...cutoffs)} (${reports[0].label}):`);
+    misses.forEach(result => lines.push(`- ${result.userId}/${result.questionId}: ${result.missing.join('; ')}`));
+  }
+  return lines.join('\n');
+}
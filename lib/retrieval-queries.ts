@@ -0,0 +1,101 @@
+import { getRecentSummaries } from './vector-memory';
+import type { MemorySearchResult } from './vector-memory';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface RetrievalQueryOptions {
+  firstName?: string;
+  /** The user's local time as sent by the client, e.g. "3:45:12 PM" or "15:45:12" */
+  currentTime?: string;
+  /** Additional query from the caller, searched alongside the generated ones */
+  extraQuery?: string;
+}
+
+// Each query is a separate search, so keep the number bounded
+const MAX_QUERIES = 5;
+const MAX_FOLLOW_UP_QUERIES = 2;
+
+/**
+ * Time of day from a client time string (null if it can't be parsed)
+ */
+export function parseTimeOfDay(currentTime?: string): TimeOfDay | null {
+  const match = currentTime?.match(/(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp])?\.?\s*[Mm]?/);
+  if (!match) return null;
+
+  let hour = parseInt(match[1], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'p' && hour < 12) hour += 12;
+  if (meridiem === 'a' && hour === 12) hour = 0;
+  if (hour > 23) return null;
+
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+const TIME_OF_DAY_QUERIES: Record<TimeOfDay, (name: string) => string> = {
+  morning: (name) => `${name}'s plans for the day, how they slept and their morning routine`,
+  afternoon: (name) => `What ${name} is doing today, their afternoon activities and appointments`,
+  evening: (name) => `How ${name}'s day went, dinner and their evening plans`,
+  night: (name) => `What keeps ${name} up at night, worries and trouble sleeping`,
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+/**
+ * Queries from the latest call summary: its topics and people, and what Alex should follow up on
+ */
+function summaryQueries(summary: MemorySearchResult): string[] {
+  const queries: string[] = [];
+  const topics = stringList(summary.metadata.topics);
+  const people = stringList(summary.metadata.people);
+
+  if (topics.length > 0 || people.length > 0) {
+    queries.push([...topics, ...people].join(', '));
+  } else {
+    // Summaries without structured fields: the first line is the prose summary
+    queries.push(summary.text.split('\n')[0]);
+  }
+
+  stringList(summary.metadata.followUps)
+    .slice(0, MAX_FOLLOW_UP_QUERIES)
+    .forEach(followUp => queries.push(followUp));
+
+  return queries;
+}
+
+/**
+ * Build the retrieval queries for a new call's context, so it reflects what is going on in the
+ * user's life: the most recent call summary and its open follow-ups, the time of day and,
+ * without any history, a general query about the user.
+ */
+export async function buildRetrievalQueries(userId: string, options: RetrievalQueryOptions = {}): Promise<string[]> {
+  const name = options.firstName || 'the user';
+  const queries: string[] = [];
+
+  const [latestSummary] = await getRecentSummaries(userId, 1).catch((error): MemorySearchResult[] => {
+    console.error('Error loading latest call summary for retrieval queries:', error);
+    return [];
+  });
+  if (latestSummary) {
+    queries.push(...summaryQueries(latestSummary));
+  }
+
+  const timeOfDay = parseTimeOfDay(options.currentTime);
+  if (timeOfDay) {
+    queries.push(TIME_OF_DAY_QUERIES[timeOfDay](name));
+  }
+
+  if (options.extraQuery) {
+    queries.push(options.extraQuery);
+  }
+
+  if (!latestSummary) {
+    queries.push(`Conversation with ${name} about their life and experiences`);
+  }
+
+  const unique = Array.from(new Set(queries.map(query => query.trim()).filter(Boolean)));
+  return unique.slice(0, MAX_QUERIES);
+}
@@ -0,0 +1,287 @@
+import { adminDb } from './firebase-admin';
+import { getOpenAIClient } from './openai';
+import { getCircuitBreaker } from './circuit-breaker';
+import { tokenize } from './keyword-index';
+import { redactTranscripts } from './pii-redaction';
+
+export type FactType =
+  | 'person'
+  | 'pet'
+  | 'occupation'
+  | 'location'
+  | 'health'
+  | 'preference'
+  | 'event'
+  | 'other';
+
+const FACT_TYPES: FactType[] = ['person', 'pet', 'occupation', 'location', 'health', 'preference', 'event', 'other'];
+
+/**
+ * Stable fact about a user, kept in Firestore `users/{uid}/facts/{key}`
+ */
+export interface UserFact {
+  /** Stable identifier, e.g. "spouse_name" or "dog_name" */
+  key: string;
+  type: FactType;
+  /** Human-readable label, e.g. "Spouse" */
+  label: string;
+  value: string;
+  /** 0-1, how sure the extraction is */
+  confidence: number;
+  /** Calls the fact was stated or confirmed in */
+  sourceCallIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ExtractedFact = Pick<UserFact, 'key' | 'type' | 'label' | 'value' | 'confidence'>;
+
+const FACTS_MODEL = process.env.FACTS_MODEL || process.env.SUMMARY_MODEL || 'gpt-4o-mini';
+
+// Facts below this confidence are not stored
+const MIN_FACT_CONFIDENCE = 0.5;
+
+const FACTS_PROMPT = `You extract stable personal facts about the user from a conversation between the user and Alex, an AI companion.
+Only extract facts the user states about themselves or their life that will still be true in later conversations:
+family members and friends (with names), pets, job, where they live, health conditions, strong preferences, important upcoming or recent life events.
+Ignore small talk, passing moods and anything Alex says that the user did not confirm.
+You are given the facts already known; reuse their "key" when a fact is confirmed or updated.
+Return a JSON object {"facts": [...]} where each fact has:
+- "key": stable snake_case identifier (e.g. "spouse_name", "dog_name", "job", "home_city")
+- "type": one of ${FACT_TYPES.join(', ')}
+- "label": short human-readable label (e.g. "Spouse", "Dog")
+- "value": the fact (e.g. "Maria", "Biscuit, a beagle")
+- "confidence": number between 0 and 1
+Return {"facts": []} if there is nothing new.`;
+
+const normalizeKey = (key: string) =>
+  key.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 100);
+
+const factsCollection = (userId: string) => {
+  if (!adminDb) {
+    throw new Error('Firebase Admin not configured');
+  }
+  return adminDb.collection('users').doc(userId).collection('facts');
+};
+
+/**
+ * Extract facts from a transcript with an LLM
+ */
+export async function extractFacts(
+  transcripts: Array<{ speaker: string; text: string }>,
+  knownFacts: UserFact[] = [],
+  omitTopics: string[] = []
+): Promise<ExtractedFact[]> {
+  try {
+    // Masked before it reaches the model, so a fact can't carry a phone number or address
+    const conversation = (await redactTranscripts(transcripts))
+      .filter(t => t.text.trim())
+      .map(t => `${t.speaker === 'agent' ? 'Alex' : t.speaker === 'user' ? 'User' : t.speaker}: ${t.text}`)
+      .join('\n');
+
+    const known = knownFacts.map(f => ({ key: f.key, label: f.label, value: f.value }));
+
+    const response = await getCircuitBreaker('openai').run(() => getOpenAIClient().chat.completions.create({
+      model: FACTS_MODEL,
+      response_format: { type: 'json_object' },
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content: omitTopics.length > 0
+            ? `${FACTS_PROMPT}\nThe user asked Alex to forget these topics; extract nothing about them: ${omitTopics.join('; ')}`
+            : FACTS_PROMPT,
+        },
+        { role: 'user', content: `Known facts:\n${JSON.stringify(known)}\n\nConversation:\n${conversation}` },
+      ],
+    }));
+
+    const parsed = JSON.parse(response.choices[0]?.message?.content || '{}');
+    const facts: unknown[] = Array.isArray(parsed.facts) ? parsed.facts : [];
+
+    return facts
+      .map((fact: any): ExtractedFact | null => {
+        const key = typeof fact?.key === 'string' ? normalizeKey(fact.key) : '';
+        const value = typeof fact?.value === 'string' ? fact.value.trim() : '';
+        if (!key || !value) return null;
+        return {
+          key,
+          type: FACT_TYPES.includes(fact.type) ? fact.type : 'other',
+          label: typeof fact.label === 'string' && fact.label.trim() ? fact.label.trim() : key.replace(/_/g, ' '),
+          value,
+          confidence: Math.min(Math.max(Number(fact.confidence) || 0, 0), 1),
+        };
+      })
+      .filter((fact): fact is ExtractedFact => fact !== null && fact.confidence >= MIN_FACT_CONFIDENCE);
+  } catch (error) {
+    console.error('Error extracting user facts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all stored facts for a user, most confident first
+ */
+export async function getUserFacts(userId: string): Promise<UserFact[]> {
+  try {
+    if (!adminDb) {
+      return [];
+    }
+
+    const snapshot = await factsCollection(userId).get();
+    return snapshot.docs
+      .map((doc) => {
+        const data = doc.data();
+        return {
+          key: doc.id,
+          type: data.type,
+          label: data.label,
+          value: data.value,
+          confidence: data.confidence || 0,
+          sourceCallIds: data.sourceCallIds || [],
+          createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+          updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(),
+        } as UserFact;
+      })
+      .sort((a, b) => b.confidence - a.confidence);
+  } catch (error) {
+    console.error('Error getting user facts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Merge extracted facts into the user's fact store.
+ * A restated fact gains the call as a source and keeps the higher confidence;
+ * a changed value replaces the old one when it is at least as confident.
+ */
+export async function mergeUserFacts(userId: string, callId: string, extracted: ExtractedFact[]): Promise<number> {
+  if (extracted.length === 0) return 0;
+
+  try {
+    const existing = new Map((await getUserFacts(userId)).map(fact => [fact.key, fact]));
+    const collection = factsCollection(userId);
+    const batch = adminDb!.batch();
+    const now = new Date();
+    let changed = 0;
+
+    extracted.forEach((fact) => {
+      const current = existing.get(fact.key);
+      const sourceCallIds = Array.from(new Set([...(current?.sourceCallIds || []), callId]));
+
+      if (!current) {
+        batch.set(collection.doc(fact.key), { ...fact, sourceCallIds, createdAt: now, updatedAt: now });
+      } else if (current.value.toLowerCase() === fact.value.toLowerCase()) {
+        batch.set(collection.doc(fact.key), {
+          sourceCallIds,
+          confidence: Math.max(current.confidence, fact.confidence),
+          updatedAt: now,
+        }, { merge: true });
+      } else if (fact.confidence >= current.confidence) {
+        batch.set(collection.doc(fact.key), { ...fact, sourceCallIds, updatedAt: now }, { merge: true });
+      } else {
+        return;
+      }
+      changed++;
+    });
+
+    await batch.commit();
+    return changed;
+  } catch (error) {
+    console.error('Error merging user facts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Extract facts from one call's transcript and merge them into the user's profile
+ */
+export async function updateUserFacts(
+  userId: string,
+  callId: string,
+  transcripts: Array<{ speaker: string; text: string }>,
+  omitTopics: string[] = []
+): Promise<number> {
+  if (!adminDb || !transcripts.some(t => t.speaker === 'user' && t.text.trim())) {
+    return 0;
+  }
+
+  const knownFacts = await getUserFacts(userId);
+  const extracted = await extractFacts(transcripts, knownFacts, omitTopics);
+  const changed = await mergeUserFacts(userId, callId, extracted);
+  console.log(`User facts updated for ${userId} from call ${callId}: ${changed} changed`);
+  return changed;
+}
+
+// Plural and singular forms match ("dogs" / "dog")
+const stem = (token: string) => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token);
+
+/**
+ * Whether a fact is about a topic the user asked Alex to forget: every word of the topic
+ * (without stopwords such as "my") appears in the fact's key, label or value.
+ * "my ex" matches an "Ex-husband" fact; "my sister's wedding" does not match "Sister: Anna".
+ */
+export function factMatchesTopic(fact: Pick<UserFact, 'key' | 'label' | 'value'>, topic: string): boolean {
+  const topicTokens = tokenize(topic).map(stem);
+  if (topicTokens.length === 0) return false;
+
+  const factTokens = new Set(tokenize(`${fact.key.replace(/_/g, ' ')} ${fact.label} ${fact.value}`).map(stem));
+  return topicTokens.every(token => factTokens.has(token));
+}
+
+/**
+ * Delete the facts about a topic the user asked Alex to forget, so they are no longer part of
+ * the call context. Returns the deleted facts.
+ */
+export async function forgetUserFacts(userId: string, topic: string): Promise<UserFact[]> {
+  if (!adminDb) {
+    return [];
+  }
+
+  try {
+    const matching = (await getUserFacts(userId)).filter(fact => factMatchesTopic(fact, topic));
+    if (matching.length > 0) {
+      const collection = factsCollection(userId);
+      const batch = adminDb.batch();
+      matching.forEach(fact => batch.delete(collection.doc(fact.key)));
+      await batch.commit();
+      console.log(`Forgot ${matching.length} facts about "${topic}" for user ${userId}`);
+    }
+    return matching;
+  } catch (error) {
+    console.error('Error forgetting user facts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run fact extraction over all stored call transcripts (`callmemory`) of a user, oldest first
+ */
+export async function updateUserFactsFromStoredCalls(userId: string): Promise<{ callsProcessed: number; factsChanged: number }> {
+  if (!adminDb) {
+    throw new Error('Firebase Admin not configured');
+  }
+
+  const snapshot = await adminDb.collection('callmemory').where('userId', '==', userId).get();
+  const calls = snapshot.docs
+    .map(doc => ({ callId: doc.id, data: doc.data() }))
+    .sort((a, b) => (a.data.created_at?.toMillis?.() || 0) - (b.data.created_at?.toMillis?.() || 0));
+
+  let factsChanged = 0;
+  for (const call of calls) {
+    const transcripts = Array.isArray(call.data.transcripts) ? call.data.transcripts : [];
+    factsChanged += await updateUserFacts(userId, call.callId, transcripts);
+  }
+
+  return { callsProcessed: calls.length, factsChanged };
+}
+
+/**
+ * Format facts for the Ultravox templateContext
+ */
+export function formatUserFacts(facts: UserFact[]): string {
+  if (facts.length === 0) {
+    return 'No known facts about the user yet.';
+  }
+  return facts.map(fact => `- ${fact.label}: ${fact.value}`).join('\n');
+}
@@ -1,52 +1,206 @@
-import { Pinecone } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { adminDb } from './firebase-admin';
+import { getVectorStore, getUserVectorStore, userIdFromNamespace } from './vector-store';
+import { forEachIdPage } from './vector-pagination';
+import type { MemoryMetadata, MetadataFilter, VectorMatch } from './vector-store';
+import { getEmbeddingProvider, embedTexts } from './embeddings';
+import { loadEmbeddingTarget } from './embedding-migration';
+import { chunkArray, mapWithConcurrency, envInt } from './batching';
+import { chunkTranscript } from './chunker';
+import {
+  saveMemoryDocuments,
+  getMemoryTexts,
+  deleteMemoryDocuments,
+  markMemoryDocumentsDeleted,
+  listMemoryDocumentIds,
+  countMemoryDocuments,
+  backfillMemoryDocuments,
+  isMemoryDocumentBackfillDone,
+  markMemoryDocumentBackfillDone,
+  setMemoryDocumentPinned,
+} from './memory-documents';
+import type { MemoryDocumentCursor, MemoryDocumentFilter } from './memory-documents';
+import { rankMemories, resolveRankingProfile } from './memory-ranking';
+import { scoreImportance, DEFAULT_IMPORTANCE } from './memory-importance';
+import { getUserKeywordIndex, updateUserKeywordIndex, removeFromUserKeywordIndex, invalidateUserKeywordIndex } from './keyword-index';
+import type { KeywordMatch } from './keyword-index';
+import { matchesFilter } from './metadata-filter';
+import { redactText, getRedactedTypes } from './pii-redaction';
+import { cosineSimilarity } from './vector-math';
+import {
+  formatMemoryContext,
+  formatRecallSnippets,
+  formatTranscriptContext,
+  parseTranscriptText,
+  getLastCallTranscript,
+  estimateTokens,
+  FIRST_CALL_CONTEXT,
+} from './memory-context';
+import type { RankingProfile, RankingProfileName } from './memory-ranking';
 
-// Initialize OpenAI for embeddings (lazy initialization)
-let openaiClient: OpenAI | null = null;
+// Vector metadata keeps a truncated copy of the text; the full text lives in Firestore
+const METADATA_TEXT_LIMIT = 1000;
 
-const getOpenAIClient = () => {
-  if (!openaiClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+/**
+ * Generate embedding for text using the configured embedding provider
+ */
+async function generateEmbedding(text: string): Promise<number[]> {
+  try {
+    // Masked like stored memories, so a query quoting a phone number meets "[phone number]".
+    // Through the embedding cache: queries are often repeated
+    const [embedding] = await embedTexts([redactText(text, await getRedactedTypes()).text]);
+    return embedding;
+  } catch (error) {
+    console.error('Error generating embedding:', error);
+    throw error;
   }
-  return openaiClient;
-};
+}
+
+/**
+ * Build a deterministic memory ID from the user, call, position within the call and a content hash.
+ * Storing the same content at the same position again upserts in place.
+ * The hash is over the text with every sensitive entity type masked, whatever the redaction policy:
+ * a short hash of a short utterance can be brute-forced, so it must not encode a phone number.
+ */
+export function buildMemoryId(userId: string, callId: string, position: string, text: string): string {
+  const contentHash = createHash('sha256').update(redactText(text).text).digest('hex').substring(0, 16);
+  return `${userId}_${callId}_${position}_${contentHash}`;
+}
 
-// Initialize Pinecone
-let pineconeClient: Pinecone | null = null;
+/**
+ * Kinds of stored memories:
+ * - utterance: a single transcript line
+ * - conversation: a chunk of the full conversation
+ * - summary: a post-call summary (episodic memory)
+ * - note: something the user asked Alex to remember (always pinned)
+ */
+export type MemoryType = 'utterance' | 'conversation' | 'summary' | 'note';
 
-const getPineconeClient = () => {
-  if (!pineconeClient) {
-    if (!process.env.PINECONE_API_KEY) {
-      throw new Error('PINECONE_API_KEY is not configured');
-    }
-    pineconeClient = new Pinecone({
-      apiKey: process.env.PINECONE_API_KEY,
-    });
-  }
-  return pineconeClient;
-};
+export interface MemoryInput {
+  text: string;
+  type?: MemoryType;
+  speaker?: string;
+  timestamp?: Date;
+  callId?: string;
+  chunkIndex?: number;
+  utteranceIndex?: number;
+  memoryId?: string;
+  /** 0-1; scored from the text when not given (see lib/memory-importance.ts) */
+  importance?: number;
+  /** Additional type-specific metadata (e.g. summary topics) */
+  extraMetadata?: MemoryMetadata;
+}
 
-const PINECONE_INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'alexlistens-memories';
-const EMBEDDING_MODEL = 'text-embedding-3-small'; // 1536 dimensions
+export interface StoreBatchOptions {
+  /** Inputs per embeddings request (EMBEDDING_BATCH_SIZE, default 100) */
+  embeddingBatchSize?: number;
+  /** Embeddings requests in flight at once (EMBEDDING_CONCURRENCY, default 4) */
+  embeddingConcurrency?: number;
+  /** Records per vector store upsert (UPSERT_BATCH_SIZE, default 100) */
+  upsertBatchSize?: number;
+  /** Upserts in flight at once (UPSERT_CONCURRENCY, default 2) */
+  upsertConcurrency?: number;
+}
 
 /**
- * Generate embedding for text using OpenAI
+ * Store many memories with batched embedding and batched upserts
  */
-async function generateEmbedding(text: string): Promise<number[]> {
+export async function storeMemories(
+  userId: string,
+  callId: string,
+  memories: MemoryInput[],
+  options: StoreBatchOptions = {}
+): Promise<string[]> {
+  if (memories.length === 0) return [];
+
   try {
-    const openai = getOpenAIClient();
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: text,
+    // Sensitive entities are masked before anything leaves the process (see lib/pii-redaction.ts)
+    const redactedTypes = await getRedactedTypes();
+    const redactions = memories.map(memory => redactText(memory.text, redactedTypes));
+    // Free text in extra metadata (summary follow-ups, people, ...) is stored and returned as well
+    const redactMetadataValue = (value: MemoryMetadata[string]) => (
+      typeof value === 'string' ? redactText(value, redactedTypes).text
+        : Array.isArray(value) ? value.map(item => redactText(item, redactedTypes).text)
+          : value
+    );
+
+    // Generate embeddings (few requests for many inputs)
+    const provider = getEmbeddingProvider();
+    const embeddings = await embedTexts(redactions.map(redaction => redaction.text), {
+      batchSize: options.embeddingBatchSize,
+      concurrency: options.embeddingConcurrency,
+      provider,
     });
-    return response.data[0].embedding;
+
+    const records = memories.map((memory, i) => {
+      // Deterministic ID, so re-storing identical content overwrites instead of duplicating
+      const memoryId = memory.memoryId || buildMemoryId(userId, callId, 'memory', memory.text);
+      const speaker = memory.speaker || 'unknown';
+      const type = memory.type || (memory.speaker === 'conversation' ? 'conversation' : 'utterance');
+      return {
+        memory,
+        memoryId,
+        memoryCallId: memory.callId || callId,
+        timestamp: memory.timestamp || new Date(),
+        speaker,
+        type,
+        text: redactions[i].text,
+        redaction: redactions[i],
+        importance: memory.importance ?? scoreImportance(redactions[i].text, { type, speaker }),
+        embedding: embeddings[i],
+      };
+    });
+
+    const vectors = records.map(record => ({
+      id: record.memoryId,
+      values: record.embedding,
+      metadata: {
+        ...Object.fromEntries(Object.entries(record.memory.extraMetadata || {})
+          .map(([key, value]) => [key, redactMetadataValue(value)])),
+        userId,
+        callId: record.memoryCallId,
+        type: record.type,
+        text: record.text.substring(0, METADATA_TEXT_LIMIT), // Store first 1000 chars as metadata
+        speaker: record.speaker,
+        timestamp: record.timestamp.toISOString(),
+        importance: record.importance,
+        // Which model produced the vector (see lib/embedding-migration.ts)
+        embeddingModel: provider.model,
+        embeddingVersion: provider.version,
+        redactionCount: record.redaction.total,
+        ...(record.redaction.total > 0 ? { redactedTypes: record.redaction.types } : {}),
+        ...(record.memory.chunkIndex !== undefined ? { chunkIndex: record.memory.chunkIndex } : {}),
+        ...(record.memory.utteranceIndex !== undefined ? { utteranceIndex: record.memory.utteranceIndex } : {}),
+      },
+    }));
+
+    // Upsert to the vector store in groups
+    const store = getUserVectorStore(userId);
+    await mapWithConcurrency(
+      chunkArray(vectors, options.upsertBatchSize ?? envInt('UPSERT_BATCH_SIZE', 100)),
+      options.upsertConcurrency ?? envInt('UPSERT_CONCURRENCY', 2),
+      (group) => store.upsert(group)
+    );
+
+    // Store full text in Firestore (memories/{memoryId}) via Firebase Admin
+    await saveMemoryDocuments(records.map(record => ({
+      id: record.memoryId,
+      userId,
+      callId: record.memoryCallId,
+      text: record.text,
+      speaker: record.speaker,
+      type: record.type,
+      timestamp: record.timestamp,
+      redactions: record.redaction.counts,
+      chunkIndex: record.memory.chunkIndex,
+      utteranceIndex: record.memory.utteranceIndex,
+      pinned: record.memory.extraMetadata?.pinned === true,
+    })));
+
+    updateUserKeywordIndex(userId, vectors);
+    return records.map(record => record.memoryId);
   } catch (error) {
-    console.error('Error generating embedding:', error);
+    console.error('Error storing memories:', error);
     throw error;
   }
 }
@@ -58,42 +212,10 @@ export async function storeMemory(
   userId: string,
   callId: string,
   text: string,
-  metadata?: {
-    speaker?: string;
-    timestamp?: Date;
-    callId?: string;
-  }
+  metadata?: Omit<MemoryInput, 'text'>
 ): Promise<void> {
   try {
-    // Generate embedding
-    const embedding = await generateEmbedding(text);
-
-    // Get Pinecone index
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
-    // Create unique ID for the memory
-    const memoryId = `${userId}_${callId}_${Date.now()}`;
-
-    // Upsert to Pinecone
-    await index.upsert([
-      {
-        id: memoryId,
-        values: embedding,
-        metadata: {
-          userId,
-          callId: metadata?.callId || callId,
-          text: text.substring(0, 1000), // Store first 1000 chars as metadata
-          speaker: metadata?.speaker || 'unknown',
-          timestamp: metadata?.timestamp?.toISOString() || new Date().toISOString(),
-        },
-      },
-    ]);
-
-    // Store full metadata in Firestore (optional - via API route)
-    // Firestore storage is handled separately to avoid server-side Firebase client SDK issues
-    // Metadata is stored in Pinecone, and full text can be retrieved from there
-
+    const [memoryId] = await storeMemories(userId, callId, [{ ...metadata, text }]);
     console.log('Memory stored successfully:', memoryId);
   } catch (error) {
     console.error('Error storing memory:', error);
@@ -101,119 +223,354 @@ export async function storeMemory(
   }
 }
 
+export interface MemorySearchResult {
+  id: string;
+  text: string;
+  speaker: string;
+  callId: string;
+  type: MemoryType;
+  timestamp: Date;
+  score: number;
+  /** 0-1, assigned when stored */
+  importance: number;
+  /** Always included in the call context */
+  pinned: boolean;
+  metadata: MemoryMetadata;
+}
+
+export interface SearchOptions {
+  /** Only return memories of these types */
+  types?: MemoryType[];
+  /** Exclude memories of these types */
+  excludeTypes?: MemoryType[];
+  /** Leave out the memories of this call */
+  excludeCallId?: string;
+  /** Re-ranking profile (default: 'balanced'); 'raw' returns plain similarity top-K */
+  ranking?: RankingProfileName | RankingProfile;
+  /**
+   * Weight of BM25 keyword matches fused into the vector score (default 0.3; 0 = vector only).
+   * Each result scores similarity + keywordWeight × (BM25 / best BM25 for the query).
+   */
+  keywordWeight?: number;
+}
+
+const DEFAULT_KEYWORD_WEIGHT = 0.3;
+
+/**
+ * Memory type of a stored record (records written before types existed have none)
+ */
+function getMemoryType(metadata: MemoryMetadata): MemoryType {
+  if (metadata.type === 'summary' || metadata.type === 'conversation' || metadata.type === 'utterance' || metadata.type === 'note') {
+    return metadata.type;
+  }
+  return metadata.speaker === 'conversation' ? 'conversation' : 'utterance';
+}
+
 /**
  * Search for relevant memories using semantic search
  */
 export async function searchMemories(
   userId: string,
   queryText: string,
-  limit: number = 5
-): Promise<Array<{
-  text: string;
-  speaker: string;
-  callId: string;
-  timestamp: Date;
-  score: number;
-}>> {
+  limit: number = 5,
+  options: SearchOptions = {}
+): Promise<MemorySearchResult[]> {
   try {
     // Generate embedding for query
     const queryEmbedding = await generateEmbedding(queryText);
 
-    // Get Pinecone index
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
+    const filter: MetadataFilter = {
+      userId: { $eq: userId },
+      deleted: { $ne: true },
+    };
+    if (options.types) {
+      filter.type = { $in: options.types };
+    } else if (options.excludeTypes) {
+      filter.type = { $nin: options.excludeTypes };
+    }
+    if (options.excludeCallId) {
+      filter.callId = { $ne: options.excludeCallId };
+    }
+
+    // Fetch extra candidates so re-ranking has something to choose from
+    const store = getUserVectorStore(userId);
+    const profile = resolveRankingProfile(options.ranking);
+    const candidateCount = Math.min(limit * profile.candidateMultiplier, 100);
+    const keywordWeight = options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
 
-    // Search Pinecone
-    const queryResponse = await index.query({
+    const matches = await store.query({
       vector: queryEmbedding,
-      topK: limit,
-      includeMetadata: true,
-      filter: {
-        userId: { $eq: userId },
-      },
+      topK: candidateCount,
+      filter,
+      includeValues: profile.mmrLambda < 1,
     });
 
-    // Format results from Pinecone metadata
-    // Full text is stored in Pinecone metadata (first 1000 chars) and in Firestore via API route
-    const results = queryResponse.matches.map((match) => {
-      const metadata = match.metadata || {};
-      return {
-        text: String(metadata.text || ''),
-        speaker: String(metadata.speaker || 'unknown'),
-        callId: String(metadata.callId || ''),
-        timestamp: metadata.timestamp 
-          ? new Date(String(metadata.timestamp))
-          : new Date(),
-        score: match.score || 0,
-      };
-    });
+    // Hybrid retrieval: fuse BM25 keyword matches into the vector candidates
+    if (keywordWeight > 0) {
+      const keywordMatches = await getUserKeywordIndex(userId)
+        .then(index => index.search(queryText, candidateCount, metadata => matchesFilter(metadata, filter)))
+        .catch((error): KeywordMatch[] => {
+          console.error('Keyword search failed, using vector results only:', error);
+          return [];
+        });
+
+      const keywordScores = new Map(keywordMatches.map(match => [match.id, match.score]));
+      const vectorIds = new Set(matches.map(match => match.id));
 
-    return results;
+      // Keyword-only hits need their vectors for a similarity score (and MMR). The index can lag behind
+      // writes on other instances, so the stored record must still pass the filter (not forgotten, ...)
+      const missingIds = keywordMatches.map(match => match.id).filter(id => !vectorIds.has(id));
+      const missingRecords = missingIds.length > 0 ? await store.fetch(missingIds) : [];
+      missingRecords.filter(record => matchesFilter(record.metadata, filter)).forEach((record) => {
+        matches.push({
+          id: record.id,
+          score: cosineSimilarity(queryEmbedding, record.values),
+          metadata: record.metadata,
+          values: record.values,
+        });
+      });
+
+      matches.forEach((match) => {
+        match.score += keywordWeight * (keywordScores.get(match.id) || 0);
+      });
+    }
+
+    const ranked = rankMemories(
+      matches.map(match => ({
+        ...match,
+        timestamp: parseTimestamp(match.metadata.timestamp),
+        importance: getImportance(match.metadata),
+      })),
+      limit,
+      profile
+    );
+
+    return await toSearchResults(ranked);
   } catch (error) {
     console.error('Error searching memories:', error);
     throw error;
   }
 }
 
+function getImportance(metadata: MemoryMetadata): number {
+  return typeof metadata.importance === 'number' ? metadata.importance : DEFAULT_IMPORTANCE;
+}
+
+function parseTimestamp(value: unknown): Date {
+  const timestamp = value ? new Date(String(value)) : new Date();
+  return isNaN(timestamp.getTime()) ? new Date() : timestamp;
+}
+
+/**
+ * Format vector matches, rehydrating full text from Firestore
+ */
+async function toSearchResults(matches: VectorMatch[]): Promise<MemorySearchResult[]> {
+  // Vector metadata only holds the first 1000 chars; rehydrate full text from Firestore
+  const fullTexts = await getMemoryTexts(matches.map(match => match.id)).catch((error) => {
+    console.error('Error loading full memory text, using truncated text:', error);
+    return new Map<string, string>();
+  });
+
+  return matches.map((match) => {
+    const metadata = match.metadata;
+    return {
+      id: match.id,
+      text: fullTexts.get(match.id) ?? String(metadata.text || ''),
+      speaker: String(metadata.speaker || 'unknown'),
+      callId: String(metadata.callId || ''),
+      type: getMemoryType(metadata),
+      timestamp: parseTimestamp(metadata.timestamp),
+      score: match.score,
+      importance: getImportance(metadata),
+      pinned: metadata.pinned === true,
+      metadata,
+    };
+  });
+}
+
 /**
- * Store conversation transcripts as memories
+ * Store conversation transcripts as memories (timestamped now unless options.timestamp is given)
  */
 export async function storeConversationMemory(
   userId: string,
   callId: string,
-  transcripts: Array<{ speaker: string; text: string }>
+  transcripts: Array<{ speaker: string; text: string }>,
+  options: StoreBatchOptions & { timestamp?: Date } = {}
 ): Promise<void> {
+  const { timestamp = new Date(), ...batchOptions } = options;
   try {
-    // Store each transcript as a separate memory
-    for (const transcript of transcripts) {
+    const store = getUserVectorStore(userId);
+
+    // Memories already stored for this call; transcripts are re-sent as the call progresses.
+    // Their IDs share the call's prefix (see buildMemoryId), so only those are listed
+    const existing = await store.scan({
+      userId: { $eq: userId },
+      callId: { $eq: callId },
+    }, { prefix: `${userId}_${callId}_` });
+    const existingIds = new Set(existing.map(match => match.id));
+
+    // Each utterance is a separate memory, keyed by its position in the call
+    const entries: Array<{
+      memoryId: string;
+      text: string;
+      speaker: string;
+      utteranceIndex?: number;
+      chunkIndex?: number;
+    }> = [];
+
+    transcripts.forEach((transcript, index) => {
       if (transcript.text.trim()) {
-        await storeMemory(userId, callId, transcript.text, {
+        entries.push({
+          memoryId: buildMemoryId(userId, callId, `u${index}`, `${transcript.speaker}: ${transcript.text}`),
+          text: transcript.text,
           speaker: transcript.speaker,
-          callId,
-          timestamp: new Date(),
+          utteranceIndex: index,
         });
       }
-    }
-
-    // Also store the full conversation as context
-    const fullConversation = transcripts
-      .map(t => `${t.speaker}: ${t.text}`)
-      .join('\n');
+    });
 
-    if (fullConversation.trim()) {
-      await storeMemory(userId, callId, fullConversation, {
+    // Also store the full conversation as context, split into overlapping windows
+    // so long calls are embedded in full instead of being truncated
+    chunkTranscript(transcripts).forEach((chunk) => {
+      entries.push({
+        memoryId: buildMemoryId(userId, callId, `c${chunk.index}`, chunk.text),
+        text: chunk.text,
         speaker: 'conversation',
-        callId,
-        timestamp: new Date(),
+        chunkIndex: chunk.index,
       });
+    });
+
+    // Only new or changed entries need embedding; they are embedded and upserted in batches
+    const pending = entries.filter(entry => !existingIds.has(entry.memoryId));
+    await storeMemories(userId, callId, pending.map(entry => ({ ...entry, callId, timestamp })), batchOptions);
+
+    // Remove transcript memories whose content changed since the last store. A transcript
+    // shorter than the stored one is an out-of-date copy (e.g. a late retry), not a correction,
+    // so it never removes anything
+    const storedLength = existing.reduce((length, match) => (
+      typeof match.metadata.utteranceIndex === 'number' ? Math.max(length, match.metadata.utteranceIndex + 1) : length
+    ), 0);
+    const currentIds = new Set(entries.map(entry => entry.memoryId));
+    const staleIds = transcripts.length < storedLength ? [] : existing
+      .filter(match => match.metadata.utteranceIndex !== undefined || match.metadata.chunkIndex !== undefined)
+      .map(match => match.id)
+      .filter(id => !currentIds.has(id));
+
+    if (staleIds.length > 0) {
+      await store.deleteMany(staleIds);
+      await deleteMemoryDocuments(staleIds);
+      removeFromUserKeywordIndex(userId, staleIds);
     }
+
+    console.log(`Conversation memory for call ${callId}: ${pending.length} stored, ${staleIds.length} replaced, ${entries.length - pending.length} unchanged`);
   } catch (error) {
     console.error('Error storing conversation memory:', error);
-    // Don't throw - allow call to continue even if memory storage fails
+    // Failed writes are queued for retry by the caller (see lib/memory-outbox.ts)
+    throw error;
+  }
+}
+
+// Reciprocal rank fusion constant: damps the advantage of the very top ranks
+const RRF_K = 60;
+
+/**
+ * Run several searches and merge them by reciprocal rank fusion, so memories that rank well
+ * for more than one query come first. Each result keeps its best score across the queries.
+ */
+export async function searchMemoriesForQueries(
+  userId: string,
+  queries: string[],
+  limit: number = 5,
+  options: SearchOptions = {}
+): Promise<MemorySearchResult[]> {
+  if (queries.length === 1) {
+    return searchMemories(userId, queries[0], limit, options);
   }
+
+  const resultLists = await Promise.all(queries.map(query => searchMemories(userId, query, limit, options)));
+
+  const merged = new Map<string, { result: MemorySearchResult; fused: number }>();
+  resultLists.forEach((results) => {
+    results.forEach((result, rank) => {
+      const entry = merged.get(result.id);
+      const contribution = 1 / (RRF_K + rank + 1);
+      if (entry) {
+        entry.fused += contribution;
+        if (result.score > entry.result.score) entry.result = result;
+      } else {
+        merged.set(result.id, { result, fused: contribution });
+      }
+    });
+  });
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.fused - a.fused)
+    .slice(0, limit)
+    .map(entry => entry.result);
+}
+
+export interface ContextOptions extends Pick<SearchOptions, 'ranking' | 'keywordWeight'> {
+  /** Approximate token budget (CONTEXT_TOKEN_BUDGET, default 1200) */
+  maxTokens?: number;
+  /** Label for the user's lines, usually their first name (default "User") */
+  userName?: string;
+}
+
+export interface CallContext {
+  context: string;
+  /** memories: vector memories; last-call: the previous call's transcript; none: first call */
+  source: 'memories' | 'last-call' | 'none';
+  tokens: number;
 }
 
 /**
- * Get relevant context for a new conversation
+ * Retrieve the memories for a call context: pinned memories (regardless of the query),
+ * then post-call summaries, then raw memories from calls that no summary covers
+ */
+async function retrieveContextMemories(
+  userId: string,
+  queries: string[],
+  maxMemories: number,
+  options: Pick<SearchOptions, 'ranking' | 'keywordWeight'>
+): Promise<{ pinned: MemorySearchResult[]; recalled: MemorySearchResult[] }> {
+  const { ranking, keywordWeight } = options;
+
+  // Pinned memories don't count towards maxMemories
+  const pinned = await getPinnedMemories(userId).catch((error): MemorySearchResult[] => {
+    console.error('Error loading pinned memories:', error);
+    return [];
+  });
+  const pinnedIds = new Set(pinned.map(m => m.id));
+
+  const summaries = (await searchMemoriesForQueries(userId, queries, maxMemories, { types: ['summary'], ranking, keywordWeight }))
+    .filter(m => !pinnedIds.has(m.id));
+
+  let rawMemories: MemorySearchResult[] = [];
+  const remaining = maxMemories - summaries.length;
+  if (remaining > 0) {
+    const summarizedCalls = new Set(summaries.map(m => m.callId));
+    rawMemories = (await searchMemoriesForQueries(userId, queries, remaining * 3, { excludeTypes: ['summary'], ranking, keywordWeight }))
+      .filter(m => !summarizedCalls.has(m.callId) && !pinnedIds.has(m.id))
+      .slice(0, remaining);
+  }
+
+  return { pinned, recalled: [...summaries, ...rawMemories] };
+}
+
+/**
+ * Get relevant context for a new conversation, formatted to a token budget
+ * (see lib/memory-context.ts). Post-call summaries are preferred; raw memories fill the
+ * remaining slots, skipping calls that are already covered by a summary.
  */
 export async function getRelevantContext(
   userId: string,
   queryText: string,
-  maxMemories: number = 3
+  maxMemories: number = 3,
+  options: ContextOptions = {}
 ): Promise<string> {
   try {
-    const memories = await searchMemories(userId, queryText, maxMemories);
-    
-    if (memories.length === 0) {
-      return 'No previous conversation history. This is the first call.';
-    }
-
-    // Format memories as context
-    const context = memories
-      .map((m, idx) => `Previous conversation ${idx + 1}:\n${m.speaker}: ${m.text}`)
-      .join('\n\n');
-
-    return context;
+    const { pinned, recalled } = await retrieveContextMemories(userId, [queryText], maxMemories, options);
+    return formatMemoryContext(pinned, recalled, options) || 'No previous conversation history. This is the first call.';
   } catch (error) {
     console.error('Error getting relevant context:', error);
     return 'No previous conversation history available.';
@@ -221,100 +578,579 @@ export async function getRelevantContext(
 }
 
 /**
- * Initialize Pinecone index (call this once to set up the index)
+ * Build the `lastCallTranscript` context for a new call from one or more retrieval queries
+ * (see lib/retrieval-queries.ts). Uses vector memories when any are found;
+ * otherwise (or when the vector store fails) falls back to the last call's transcript from
+ * Firestore `callmemory`, then to fallbackTranscript (the client's copy of it).
  */
-export async function initializePineconeIndex(): Promise<void> {
+export async function buildCallContext(
+  userId: string,
+  queries: string[],
+  options: ContextOptions & { maxMemories?: number; fallbackTranscript?: string } = {}
+): Promise<CallContext> {
+  const { maxMemories = 6, fallbackTranscript, ...formatOptions } = options;
+  const result = (context: string, source: CallContext['source']): CallContext => ({
+    context,
+    source,
+    tokens: estimateTokens(context),
+  });
+
   try {
-    const pinecone = getPineconeClient();
-    
-    // Check if index exists
-    const indexes = await pinecone.listIndexes();
-    const indexExists = indexes.indexes?.some(idx => idx.name === PINECONE_INDEX_NAME);
-
-    if (!indexExists) {
-      // Create index if it doesn't exist
-      await pinecone.createIndex({
-        name: PINECONE_INDEX_NAME,
-        dimension: 1536, // text-embedding-3-small dimension
-        metric: 'cosine',
-        spec: {
-          serverless: {
-            cloud: 'aws',
-            region: 'us-east-1',
-          },
-        },
-      });
-      console.log('Pinecone index created:', PINECONE_INDEX_NAME);
-    } else {
-      console.log('Pinecone index already exists:', PINECONE_INDEX_NAME);
-    }
+    const { pinned, recalled } = await retrieveContextMemories(userId, queries, maxMemories, formatOptions);
+    const context = formatMemoryContext(pinned, recalled, formatOptions);
+    if (context) return result(context, 'memories');
   } catch (error) {
-    console.error('Error initializing Pinecone index:', error);
+    console.error('Error getting vector context, falling back to the last call transcript:', error);
+  }
+
+  const lastCall = (await getLastCallTranscript(userId))
+    || (fallbackTranscript && fallbackTranscript !== FIRST_CALL_CONTEXT ? parseTranscriptText(fallbackTranscript) : null);
+  const transcriptContext = lastCall ? formatTranscriptContext(lastCall, formatOptions) : '';
+  if (transcriptContext) return result(transcriptContext, 'last-call');
+
+  return result(FIRST_CALL_CONTEXT, 'none');
+}
+
+/**
+ * Look up memories during a call (the recallMemory tool) as short, dated snippets.
+ * Memories of the current call are left out: the agent already has them.
+ */
+export async function recallMemories(
+  userId: string,
+  queryText: string,
+  options: { limit?: number; excludeCallId?: string; userName?: string } = {}
+): Promise<{ snippets: string[]; memories: MemorySearchResult[] }> {
+  const memories = await searchMemories(userId, queryText, options.limit || 5, { excludeCallId: options.excludeCallId });
+  return { snippets: formatRecallSnippets(memories, { userName: options.userName }), memories };
+}
+
+/**
+ * Initialize the vector store (creates the Pinecone index if it doesn't exist)
+ */
+export async function initializeVectorStore(): Promise<void> {
+  try {
+    // Index dimension follows the active embedding provider
+    await getVectorStore().initialize(getEmbeddingProvider().dimension);
+  } catch (error) {
+    console.error('Error initializing vector store:', error);
     throw error;
   }
 }
 
-// Ensure Pinecone index is initialized once per runtime
-let pineconeInitialized = false;
-export async function ensurePineconeReady(): Promise<void> {
-  if (pineconeInitialized) return;
-  await initializePineconeIndex().catch((err) => {
+// Ensure the vector store is initialized once per runtime
+let vectorStoreInitialized = false;
+export async function ensureVectorStoreReady(): Promise<void> {
+  // Follows a switch to re-embedded memories (re-read at most every EMBEDDING_TARGET_TTL_MS)
+  await loadEmbeddingTarget();
+  if (vectorStoreInitialized) return;
+  await initializeVectorStore().catch((err) => {
     // Do not mark as initialized if init failed
-    console.error('Pinecone init error:', err);
+    console.error('Vector store init error:', err);
     throw err;
   });
-  pineconeInitialized = true;
+  vectorStoreInitialized = true;
+}
+
+export interface ListMemoriesOptions {
+  /** Page size (default 20, max 100) */
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+  speaker?: string;
+  callId?: string;
+  types?: MemoryType[];
+  /** Only memories at or after this time */
+  from?: Date;
+  /** Only memories before this time */
+  to?: Date;
+}
+
+export interface MemoryPage {
+  /** Newest first; score is always 0 */
+  memories: MemorySearchResult[];
+  /** Set when more memories follow */
+  nextCursor?: string;
+  /** Memories matching the filters */
+  total: number;
 }
 
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
 /**
- * Get user's Pinecone memory statistics
+ * List a user's memories, newest first, with filters and cursor pagination.
+ * Pages are read from the Firestore memory documents (ordered by time), so each page costs
+ * about one page of reads; without Firebase Admin the namespace is scanned instead.
  */
-export async function getUserMemoryStats(userId: string): Promise<{
+export async function listMemories(userId: string, options: ListMemoriesOptions = {}): Promise<MemoryPage> {
+  try {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    if (!adminDb) {
+      return await listMemoriesByScan(userId, options, limit);
+    }
+    await ensureMemoryDocuments(userId);
+    return await listMemoriesFromDocuments(userId, options, limit);
+  } catch (error) {
+    console.error('Error listing memories:', error);
+    throw error;
+  }
+}
+
+// Users whose memories all have a Firestore document (checked on this instance)
+const backfilledUsers = new Set<string>();
+
+/**
+ * Make sure every memory of the user has a `memories` document before reading the documents.
+ * Memories stored before the documents existed get one on the first read, from one namespace scan.
+ */
+async function ensureMemoryDocuments(userId: string): Promise<void> {
+  if (backfilledUsers.has(userId)) return;
+
+  if (!(await isMemoryDocumentBackfillDone(userId))) {
+    const records = await getUserVectorStore(userId).scan({ userId: { $eq: userId } });
+    const created = await backfillMemoryDocuments(records);
+    await markMemoryDocumentBackfillDone(userId, created);
+    if (created > 0) {
+      console.log(`Created ${created} memory documents for older memories of user ${userId}`);
+    }
+  }
+  backfilledUsers.add(userId);
+}
+
+// Cursor: `{timestamp ms}:{memoryId}` of the last memory of the previous page
+function parseListCursor(cursor: string | undefined): MemoryDocumentCursor | undefined {
+  const separator = cursor ? cursor.indexOf(':') : -1;
+  const time = separator > 0 ? Number(cursor!.substring(0, separator)) : NaN;
+  return isNaN(time) ? undefined : { timestamp: new Date(time), id: cursor!.substring(separator + 1) };
+}
+
+async function listMemoriesFromDocuments(userId: string, options: ListMemoriesOptions, limit: number): Promise<MemoryPage> {
+  const filter = { speaker: options.speaker, callId: options.callId, types: options.types, from: options.from, to: options.to };
+  const store = getUserVectorStore(userId);
+  const page: VectorMatch[] = [];
+  let after = parseListCursor(options.cursor);
+  let hasMore = true;
+
+  // Soft-deleted memories are only known from their vectors, so read on until the page is full.
+  // One extra document per read tells whether more follow.
+  while (page.length < limit && hasMore) {
+    const batchSize = limit - page.length + 1;
+    const documents = await listMemoryDocumentIds(userId, filter, batchSize, after);
+    const records = new Map((await store.fetch(documents.map(document => document.id))).map(record => [record.id, record]));
+    hasMore = documents.length === batchSize;
+
+    for (let i = 0; i < documents.length && page.length < limit; i++) {
+      after = documents[i];
+      const record = records.get(documents[i].id);
+      if (record && record.metadata.userId === userId && !record.metadata.deleted) {
+        page.push({ id: record.id, score: 0, metadata: record.metadata });
+      }
+      if (page.length === limit && i < documents.length - 1) hasMore = true;
+    }
+  }
+
+  return {
+    memories: await toSearchResults(page),
+    total: await countMemoryDocuments(userId, filter),
+    ...(hasMore && after ? { nextCursor: `${after.timestamp.getTime()}:${after.id}` } : {}),
+  };
+}
+
+// Memory documents read per query when collecting memories from the documents
+const DOCUMENT_READ_BATCH = 100;
+
+/**
+ * The user's live memories whose documents match the filter, newest first, up to limit
+ * (all of them by default). The vector record decides, as the documents can lag behind it.
+ */
+async function readMemoriesFromDocuments(userId: string, filter: MemoryDocumentFilter, limit: number = Infinity): Promise<VectorMatch[]> {
+  await ensureMemoryDocuments(userId);
+  const store = getUserVectorStore(userId);
+  const found: VectorMatch[] = [];
+  let after: MemoryDocumentCursor | undefined;
+
+  while (found.length < limit) {
+    const batchSize = Math.min(limit - found.length, DOCUMENT_READ_BATCH);
+    const documents = await listMemoryDocumentIds(userId, filter, batchSize, after);
+    const records = new Map((await store.fetch(documents.map(document => document.id))).map(record => [record.id, record]));
+    documents.forEach((document) => {
+      const record = records.get(document.id);
+      if (record && isLiveMemory(record, userId)) {
+        found.push({ id: record.id, score: 0, metadata: record.metadata });
+      }
+    });
+
+    if (documents.length < batchSize) break;
+    after = documents[documents.length - 1];
+  }
+  return found;
+}
+
+async function listMemoriesByScan(userId: string, options: ListMemoriesOptions, limit: number): Promise<MemoryPage> {
+  const offset = options.cursor ? Math.max(parseInt(options.cursor, 10) || 0, 0) : 0;
+
+  const filter: MetadataFilter = { userId: { $eq: userId }, deleted: { $ne: true } };
+  if (options.speaker) filter.speaker = { $eq: options.speaker };
+  if (options.callId) filter.callId = { $eq: options.callId };
+  if (options.types) filter.type = { $in: options.types };
+
+  // Timestamps are stored as ISO strings, so the date range is applied after the scan
+  const from = options.from?.getTime() ?? -Infinity;
+  const to = options.to?.getTime() ?? Infinity;
+  const matches = (await getUserVectorStore(userId).scan(filter, {
+    prefix: options.callId ? `${userId}_${options.callId}_` : undefined,
+  }))
+    .map(match => ({ match, time: parseTimestamp(match.metadata.timestamp).getTime() }))
+    .filter(({ time }) => time >= from && time < to)
+    .sort((a, b) => b.time - a.time);
+
+  const page = matches.slice(offset, offset + limit).map(({ match }) => match);
+  return {
+    memories: await toSearchResults(page),
+    total: matches.length,
+    ...(offset + limit < matches.length ? { nextCursor: String(offset + limit) } : {}),
+  };
+}
+
+/**
+ * All of a user's memories, oldest first (forgotten memories excluded)
+ */
+export async function getAllMemories(userId: string): Promise<MemorySearchResult[]> {
+  try {
+    const matches = await getUserVectorStore(userId).scan({ userId: { $eq: userId }, deleted: { $ne: true } });
+    const memories = await toSearchResults(matches);
+    return memories.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  } catch (error) {
+    console.error('Error loading all memories:', error);
+    throw error;
+  }
+}
+
+/**
+ * Whether a fetched record is one of the user's memories that hasn't been forgotten
+ */
+function isLiveMemory(record: { metadata: MemoryMetadata } | undefined, userId: string): boolean {
+  return !!record && record.metadata.userId === userId && !record.metadata.deleted;
+}
+
+/**
+ * Get one of a user's memories by ID (null if it doesn't exist, was forgotten or belongs to someone else)
+ */
+export async function getMemory(userId: string, memoryId: string): Promise<MemorySearchResult | null> {
+  try {
+    const [record] = await getUserVectorStore(userId).fetch([memoryId]);
+    if (!isLiveMemory(record, userId)) {
+      return null;
+    }
+    const [memory] = await toSearchResults([{ id: record.id, score: 0, metadata: record.metadata }]);
+    return memory;
+  } catch (error) {
+    console.error('Error getting memory:', error);
+    throw error;
+  }
+}
+
+/**
+ * Correct the text of one of a user's memories. The memory keeps its ID, call, speaker and time;
+ * it is re-embedded and marked as edited. Returns null if it doesn't exist or was forgotten.
+ */
+export async function updateMemoryText(userId: string, memoryId: string, text: string): Promise<MemorySearchResult | null> {
+  try {
+    const [record] = await getUserVectorStore(userId).fetch([memoryId]);
+    if (!isLiveMemory(record, userId)) {
+      return null;
+    }
+
+    // Redaction fields are recomputed from the new text
+    const { redactionCount: _redactionCount, redactedTypes: _redactedTypes, ...metadata } = record.metadata;
+    await storeMemories(userId, String(metadata.callId || ''), [{
+      text,
+      memoryId,
+      type: getMemoryType(metadata),
+      speaker: String(metadata.speaker || 'unknown'),
+      timestamp: parseTimestamp(metadata.timestamp),
+      chunkIndex: typeof metadata.chunkIndex === 'number' ? metadata.chunkIndex : undefined,
+      utteranceIndex: typeof metadata.utteranceIndex === 'number' ? metadata.utteranceIndex : undefined,
+      extraMetadata: { ...metadata, edited: true, editedAt: new Date().toISOString() },
+    }]);
+
+    return await getMemory(userId, memoryId);
+  } catch (error) {
+    console.error('Error updating memory:', error);
+    throw error;
+  }
+}
+
+/**
+ * Pin or unpin one of a user's memories; pinned memories are always part of the call context.
+ * Returns null if the memory doesn't exist or was forgotten.
+ */
+export async function setMemoryPinned(
+  userId: string,
+  memoryId: string,
+  pinned: boolean,
+  pinnedBy: 'user' | 'admin' = 'user'
+): Promise<MemorySearchResult | null> {
+  try {
+    const store = getUserVectorStore(userId);
+    const [record] = await store.fetch([memoryId]);
+    if (!isLiveMemory(record, userId)) {
+      return null;
+    }
+
+    // Pinecone metadata has no null values, so unpinning removes the fields
+    const { pinned: _pinned, pinnedBy: _pinnedBy, pinnedAt: _pinnedAt, ...metadata } = record.metadata;
+    const updated = {
+      id: record.id,
+      values: record.values,
+      metadata: pinned ? { ...metadata, pinned: true, pinnedBy, pinnedAt: new Date().toISOString() } : metadata,
+    };
+    await store.upsert([updated]);
+    await setMemoryDocumentPinned(memoryId, pinned);
+    updateUserKeywordIndex(userId, [updated]);
+
+    return await getMemory(userId, memoryId);
+  } catch (error) {
+    console.error('Error pinning memory:', error);
+    throw error;
+  }
+}
+
+// Pinned memories included in every call context
+const MAX_PINNED_MEMORIES = 10;
+
+/**
+ * Get a user's pinned memories, most important first. All pinned memories are read (from the
+ * `pinned` flag of the memory documents, or a scan without Firebase Admin) before picking the top ones.
+ */
+export async function getPinnedMemories(userId: string, limit: number = MAX_PINNED_MEMORIES): Promise<MemorySearchResult[]> {
+  try {
+    const matches = adminDb
+      ? (await readMemoriesFromDocuments(userId, { pinned: true })).filter(match => match.metadata.pinned === true)
+      : await getUserVectorStore(userId).scan({ userId: { $eq: userId }, pinned: { $eq: true }, deleted: { $ne: true } });
+
+    const pinned = await toSearchResults(matches.map(match => ({ ...match, score: 0 })));
+    return pinned
+      .sort((a, b) => b.importance - a.importance || b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Error getting pinned memories:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the user's most recent post-call summaries, newest first: from the memory documents ordered
+ * by time, or a scan of the summaries without Firebase Admin
+ */
+export async function getRecentSummaries(userId: string, limit: number = 1): Promise<MemorySearchResult[]> {
+  try {
+    const newest = adminDb
+      ? await readMemoriesFromDocuments(userId, { types: ['summary'] }, limit)
+      : (await getUserVectorStore(userId).scan({ userId: { $eq: userId }, type: { $eq: 'summary' }, deleted: { $ne: true } }))
+        .sort((a, b) => parseTimestamp(b.metadata.timestamp).getTime() - parseTimestamp(a.metadata.timestamp).getTime())
+        .slice(0, limit);
+    return await toSearchResults(newest);
+  } catch (error) {
+    console.error('Error getting recent summaries:', error);
+    throw error;
+  }
+}
+
+// Notes taken outside a call are grouped under this call ID
+const NOTES_CALL_ID = 'notes';
+
+/**
+ * Store something the user explicitly asked Alex to remember, as a pinned note
+ */
+export async function rememberNote(userId: string, text: string, callId: string = NOTES_CALL_ID): Promise<MemorySearchResult> {
+  const [memoryId] = await storeMemories(userId, callId, [{
+    text,
+    type: 'note',
+    speaker: 'user',
+    memoryId: buildMemoryId(userId, callId, 'note', text),
+    extraMetadata: { pinned: true, pinnedBy: 'user', pinnedAt: new Date().toISOString() },
+  }]);
+
+  const memory = await getMemory(userId, memoryId);
+  if (!memory) {
+    throw new Error(`Stored note ${memoryId} not found`);
+  }
+  return memory;
+}
+
+/**
+ * Soft-delete memories: they stay in the store (marked deleted) but are no longer
+ * searched, listed or used as context. Returns the number of memories marked.
+ */
+export async function softDeleteMemories(userId: string, memoryIds: string[]): Promise<number> {
+  if (memoryIds.length === 0) return 0;
+
+  try {
+    const store = getUserVectorStore(userId);
+    const deletedAt = new Date().toISOString();
+    const records = (await store.fetch(memoryIds)).filter(record => record.metadata.userId === userId);
+
+    const updated = records.map(record => ({
+      ...record,
+      metadata: { ...record.metadata, deleted: true, deletedAt },
+    }));
+    await store.upsert(updated);
+    await markMemoryDocumentsDeleted(updated.map(record => record.id), new Date(deletedAt));
+    updateUserKeywordIndex(userId, updated);
+    return records.length;
+  } catch (error) {
+    console.error('Error soft-deleting memories:', error);
+    throw error;
+  }
+}
+
+// Limits for forgetMatching(): a memory matches on vector similarity, or on a keyword hit that its
+// vector confirms. Keyword scores are relative to the best hit, so they can't be a threshold on their own.
+const FORGET_MAX_MEMORIES = 20;
+const FORGET_MIN_SIMILARITY = 0.5;
+const FORGET_MIN_KEYWORD_SIMILARITY = 0.35;
+
+/**
+ * Soft-delete the memories about a phrase (e.g. "my ex"), optionally only within one call.
+ * Returns the forgotten memories.
+ */
+export async function forgetMatching(
+  userId: string,
+  phrase: string,
+  options: { callId?: string } = {}
+): Promise<MemorySearchResult[]> {
+  try {
+    const store = getUserVectorStore(userId);
+    const filter: MetadataFilter = {
+      userId: { $eq: userId },
+      deleted: { $ne: true },
+      ...(options.callId ? { callId: { $eq: options.callId } } : {}),
+    };
+
+    const [phraseVector, keywordMatches] = await Promise.all([
+      generateEmbedding(phrase),
+      getUserKeywordIndex(userId).then(index =>
+        index.search(phrase, FORGET_MAX_MEMORIES, metadata => matchesFilter(metadata, filter))
+      ),
+    ]);
+    const vectorMatches = await store.query({ vector: phraseVector, topK: FORGET_MAX_MEMORIES, filter });
+
+    const matches = new Map<string, VectorMatch>();
+    vectorMatches
+      .filter(match => match.score >= FORGET_MIN_SIMILARITY)
+      .forEach(match => matches.set(match.id, match));
+
+    const keywordIds = keywordMatches.map(match => match.id).filter(id => !matches.has(id));
+    const keywordRecords = keywordIds.length > 0 ? await store.fetch(keywordIds) : [];
+    keywordRecords.filter(record => matchesFilter(record.metadata, filter)).forEach((record) => {
+      const score = cosineSimilarity(phraseVector, record.values);
+      if (score >= FORGET_MIN_KEYWORD_SIMILARITY) {
+        matches.set(record.id, { id: record.id, score, metadata: record.metadata });
+      }
+    });
+
+    const forgotten = Array.from(matches.values()).slice(0, FORGET_MAX_MEMORIES);
+    await softDeleteMemories(userId, forgotten.map(match => match.id));
+
+    console.log(`Forgot ${forgotten.length} memories about "${phrase}" for user ${userId}`);
+    return await toSearchResults(forgotten);
+  } catch (error) {
+    console.error('Error forgetting memories:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete one of a user's memories; returns false if it doesn't exist
+ */
+export async function deleteMemory(userId: string, memoryId: string): Promise<boolean> {
+  try {
+    if (!(await getMemory(userId, memoryId))) {
+      return false;
+    }
+
+    await getUserVectorStore(userId).deleteMany([memoryId]);
+    await deleteMemoryDocuments([memoryId]);
+    removeFromUserKeywordIndex(userId, [memoryId]);
+    return true;
+  } catch (error) {
+    console.error('Error deleting memory:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete all memories from one call (utterances, chunks and the summary)
+ */
+export async function deleteCallMemories(userId: string, callId: string): Promise<number> {
+  try {
+    const store = getUserVectorStore(userId);
+    const matches = await store.scan({
+      userId: { $eq: userId },
+      callId: { $eq: callId },
+    }, { prefix: `${userId}_${callId}_` });
+
+    const memoryIds = matches.map(match => match.id);
+    if (memoryIds.length === 0) {
+      return 0;
+    }
+
+    await store.deleteMany(memoryIds);
+    await deleteMemoryDocuments(memoryIds);
+    removeFromUserKeywordIndex(userId, memoryIds);
+
+    console.log(`Deleted ${memoryIds.length} memories of call ${callId} for user ${userId}`);
+    return memoryIds.length;
+  } catch (error) {
+    console.error('Error deleting call memories:', error);
+    throw error;
+  }
+}
+
+/**
+ * Called after each page of records during enumeration, with the number processed so far
+ */
+export type EnumerationProgressCallback = (processed: number) => void;
+
+/**
+ * Get user's vector memory statistics
+ */
+export async function getUserMemoryStats(userId: string, onProgress?: EnumerationProgressCallback): Promise<{
   totalMemories: number;
   uniqueCallIds: number;
   oldestMemory?: Date;
   newestMemory?: Date;
 }> {
   try {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
-    // Query with a dummy vector to get all user memories
-    // We'll use a zero vector and filter by userId
-    const zeroVector = new Array(1536).fill(0);
-    
-    // Query with high topK to get all memories (Pinecone allows up to 10,000)
-    const queryResponse = await index.query({
-      vector: zeroVector,
-      topK: 10000, // Maximum allowed
-      includeMetadata: true,
-      filter: {
-        userId: { $eq: userId },
-      },
-    });
-
-    const memories = queryResponse.matches || [];
+    const store = getUserVectorStore(userId);
     const callIds = new Set<string>();
-    const timestamps: Date[] = [];
-
-    memories.forEach((match) => {
-      const metadata = match.metadata || {};
-      const callId = String(metadata.callId || '');
-      if (callId) callIds.add(callId);
-      
-      const timestamp = metadata.timestamp 
-        ? new Date(String(metadata.timestamp))
-        : null;
-      if (timestamp && !isNaN(timestamp.getTime())) {
-        timestamps.push(timestamp);
-      }
+    let oldest: number | undefined;
+    let newest: number | undefined;
+    let processed = 0;
+
+    // Page through all record IDs; metadata is fetched page by page
+    const totalMemories = await forEachIdPage(store, async (ids) => {
+      const records = await store.fetch(ids);
+      records.forEach(({ metadata }) => {
+        const callId = String(metadata.callId || '');
+        if (callId) callIds.add(callId);
+
+        const timestamp = metadata.timestamp ? new Date(String(metadata.timestamp)).getTime() : NaN;
+        if (!isNaN(timestamp)) {
+          oldest = oldest === undefined ? timestamp : Math.min(oldest, timestamp);
+          newest = newest === undefined ? timestamp : Math.max(newest, timestamp);
+        }
+      });
+      processed += ids.length;
+      onProgress?.(processed);
     });
 
     return {
-      totalMemories: memories.length,
+      totalMemories,
       uniqueCallIds: callIds.size,
-      oldestMemory: timestamps.length > 0 ? new Date(Math.min(...timestamps.map(t => t.getTime()))) : undefined,
-      newestMemory: timestamps.length > 0 ? new Date(Math.max(...timestamps.map(t => t.getTime()))) : undefined,
+      oldestMemory: oldest !== undefined ? new Date(oldest) : undefined,
+      newestMemory: newest !== undefined ? new Date(newest) : undefined,
     };
   } catch (error) {
     console.error('Error getting user memory stats:', error);
@@ -323,39 +1159,24 @@ export async function getUserMemoryStats(userId: string): Promise<{
 }
 
 /**
- * Delete all memories for a user from Pinecone
+ * Delete all memories for a user from the vector store
  */
-export async function deleteUserMemories(userId: string): Promise<number> {
+export async function deleteUserMemories(userId: string, onProgress?: EnumerationProgressCallback): Promise<number> {
   try {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
-    // Query to get all user memory IDs
-    const zeroVector = new Array(1536).fill(0);
-    const queryResponse = await index.query({
-      vector: zeroVector,
-      topK: 10000, // Maximum allowed
-      includeMetadata: true,
-      filter: {
-        userId: { $eq: userId },
-      },
-    });
+    const store = getUserVectorStore(userId);
+    let processed = 0;
 
-    const memoryIds = queryResponse.matches.map(match => match.id);
-    
-    if (memoryIds.length === 0) {
-      return 0;
-    }
-
-    // Delete in batches (Pinecone allows up to 1000 IDs per delete)
-    const batchSize = 1000;
-    let deletedCount = 0;
+    // Delete page by page, so the Firestore documents of every listed ID go too
+    const deletedCount = await forEachIdPage(store, async (ids) => {
+      await store.deleteMany(ids);
+      await deleteMemoryDocuments(ids);
+      processed += ids.length;
+      onProgress?.(processed);
+    });
 
-    for (let i = 0; i < memoryIds.length; i += batchSize) {
-      const batch = memoryIds.slice(i, i + batchSize);
-      await index.deleteMany(batch);
-      deletedCount += batch.length;
-    }
+    // Catch records written while the deletion was running
+    await store.deleteAll();
+    invalidateUserKeywordIndex(userId);
 
     console.log(`Deleted ${deletedCount} memories for user ${userId}`);
     return deletedCount;
@@ -366,29 +1187,15 @@ export async function deleteUserMemories(userId: string): Promise<number> {
 }
 
 /**
- * List all user IDs that have memories in Pinecone
+ * List all user IDs that have memories in the vector store
  */
 export async function listUsersWithMemories(): Promise<string[]> {
   try {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(PINECONE_INDEX_NAME);
-
-    // Query with zero vector to get all memories
-    const zeroVector = new Array(1536).fill(0);
-    const queryResponse = await index.query({
-      vector: zeroVector,
-      topK: 10000, // Maximum allowed
-      includeMetadata: true,
-    });
-
-    const userIds = new Set<string>();
-    queryResponse.matches.forEach((match) => {
-      const metadata = match.metadata || {};
-      const userId = String(metadata.userId || '');
-      if (userId) userIds.add(userId);
-    });
-
-    return Array.from(userIds);
+    // Each user with memories has a non-empty namespace
+    const namespaces = await getVectorStore().listNamespaces();
+    return namespaces
+      .map(info => userIdFromNamespace(info.name))
+      .filter((userId): userId is string => userId !== null);
   } catch (error) {
     console.error('Error listing users with memories:', error);
     throw error;
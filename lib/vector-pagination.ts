@@ -0,0 +1,23 @@
+import type { VectorStore } from './vector-store';
+
+/**
+ * Page through all record IDs of a store's namespace, calling onPage for each page.
+ * Returns the number of IDs seen.
+ */
+export async function forEachIdPage(
+  store: VectorStore,
+  onPage: (ids: string[]) => Promise<void>,
+  options: { prefix?: string; pageSize?: number } = {}
+): Promise<number> {
+  let cursor: string | undefined;
+  let total = 0;
+  do {
+    const page = await store.listIds({ prefix: options.prefix, limit: options.pageSize, cursor });
+    if (page.ids.length > 0) {
+      total += page.ids.length;
+      await onPage(page.ids);
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+  return total;
+}
@@ -0,0 +1,172 @@
+import { createPineconeStore } from './pinecone-store';
+import { createLocalStore } from './local-vector-store';
+
+/**
+ * Metadata values supported by every vector store backend
+ * (mirrors the Pinecone metadata value types)
+ */
+export type MetadataValue = string | number | boolean | string[];
+
+export type MemoryMetadata = Record<string, MetadataValue>;
+
+/**
+ * Comparison operators for a single metadata field (Pinecone filter subset)
+ */
+export interface FilterCondition {
+  $eq?: string | number | boolean;
+  $ne?: string | number | boolean;
+  $in?: Array<string | number>;
+  $nin?: Array<string | number>;
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+}
+
+export type MetadataFilter = Record<string, string | number | boolean | FilterCondition>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: MemoryMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: MemoryMetadata;
+  /** Only set when the query asked for values */
+  values?: number[];
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+  includeValues?: boolean;
+}
+
+export interface ListIdsOptions {
+  /** Only IDs starting with this prefix */
+  prefix?: string;
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+}
+
+export interface ListIdsPage {
+  ids: string[];
+  /** Set when more IDs follow */
+  nextCursor?: string;
+}
+
+export interface NamespaceInfo {
+  name: string;
+  recordCount: number;
+}
+
+/**
+ * Storage backend for memory vectors.
+ * Implementations: Pinecone (default) and an in-process store for offline development.
+ * Filters use the Pinecone metadata filter syntax.
+ * A store operates on one namespace; the root store uses the default ('') namespace.
+ */
+export interface VectorStore {
+  readonly name: string;
+  readonly namespaceName: string;
+  /** A view of the same index scoped to another namespace */
+  namespace(name: string): VectorStore;
+  /** All non-empty namespaces of the index */
+  listNamespaces(): Promise<NamespaceInfo[]>;
+  /** Create the underlying index/collection if needed */
+  initialize(dimension: number): Promise<void>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(options: VectorQuery): Promise<VectorMatch[]>;
+  /** Enumerate stored records matching a filter (no similarity ranking), optionally only IDs with a prefix */
+  scan(filter?: MetadataFilter, options?: { prefix?: string }): Promise<VectorMatch[]>;
+  /** Get records by ID; missing IDs are omitted */
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+  deleteMany(ids: string[]): Promise<void>;
+  /** Page through record IDs in this namespace */
+  listIds(options?: ListIdsOptions): Promise<ListIdsPage>;
+  /** Delete every record in this namespace */
+  deleteAll(): Promise<void>;
+}
+
+/**
+ * Where memories live: index and per-user namespace prefix.
+ * Changes when memories are re-embedded into a new location (see lib/embedding-migration.ts).
+ */
+export interface VectorLocation {
+  /** Pinecone index; null for PINECONE_INDEX_NAME (the local store has a single index) */
+  indexName: string | null;
+  /** Prefix of the per-user namespaces, '' for the original ones */
+  namespacePrefix: string;
+}
+
+const vectorStores = new Map<string, VectorStore>();
+let activeLocation: VectorLocation = { indexName: null, namespacePrefix: '' };
+let userStoreWrapper: ((userId: string, store: VectorStore) => VectorStore) | null = null;
+
+/**
+ * Get the vector store for an index, by default the active one (lazy initialization).
+ * Select the backend with VECTOR_STORE=pinecone|local (default: pinecone).
+ */
+export function getVectorStore(indexName: string | null = activeLocation.indexName): VectorStore {
+  const backend = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+  const key = backend === 'local' ? 'local' : indexName || '';
+
+  let vectorStore = vectorStores.get(key);
+  if (!vectorStore) {
+    if (backend === 'local') {
+      vectorStore = createLocalStore(process.env.LOCAL_VECTOR_STORE_PATH);
+    } else if (backend === 'pinecone') {
+      vectorStore = createPineconeStore(indexName || process.env.PINECONE_INDEX_NAME || 'alexlistens-memories');
+    } else {
+      throw new Error(`Unknown VECTOR_STORE backend: ${backend}`);
+    }
+    vectorStores.set(key, vectorStore);
+  }
+  return vectorStore;
+}
+
+export function getVectorLocation(): VectorLocation {
+  return activeLocation;
+}
+
+/**
+ * Switch the location all memory reads and writes go to
+ */
+export function setVectorLocation(location: VectorLocation): void {
+  activeLocation = location;
+}
+
+/**
+ * Wrap every store returned by getUserVectorStore() (null to remove), e.g. to mirror writes elsewhere
+ */
+export function setUserStoreWrapper(wrapper: ((userId: string, store: VectorStore) => VectorStore) | null): void {
+  userStoreWrapper = wrapper;
+}
+
+/**
+ * Namespace holding a user's memories
+ */
+export function userNamespace(userId: string, prefix: string = activeLocation.namespacePrefix): string {
+  return `${prefix}user_${userId}`;
+}
+
+/**
+ * Inverse of userNamespace(); null for namespaces that don't belong to a user
+ */
+export function userIdFromNamespace(namespace: string, prefix: string = activeLocation.namespacePrefix): string | null {
+  const userPrefix = `${prefix}user_`;
+  return namespace.startsWith(userPrefix) ? namespace.substring(userPrefix.length) : null;
+}
+
+/**
+ * Vector store scoped to one user's namespace
+ */
+export function getUserVectorStore(userId: string): VectorStore {
+  const store = getVectorStore().namespace(userNamespace(userId));
+  return userStoreWrapper ? userStoreWrapper(userId, store) : store;
+}
@@ -0,0 +1,87 @@
+/**
+ * Offline retrieval-quality benchmark (see lib/retrieval-benchmark.ts)
+ *
+ *   npm run benchmark:retrieval -- [--fixtures path] [--ranking balanced,raw] [--keyword-weight 0,0.3]
+ *                                  [--k 1,3,5,10] [--max-memories 6] [--max-tokens 1200] [--json] [--verbose]
+ *
+ * Every combination of --ranking and --keyword-weight is scored on the same stored fixtures.
+ * Runs fully offline: the local embedder and an in-memory local vector store, no Firebase.
+ */
+import fs from 'fs';
+import path from 'path';
+import type { RankingProfileName } from '../lib/memory-ranking';
+import type { BenchmarkFixture, BenchmarkReport } from '../lib/retrieval-benchmark';
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+const list = (value: string | true | undefined, fallback: string[]): string[] =>
+  typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : fallback;
+
+const optionalInt = (value: string | true | undefined): number | undefined =>
+  typeof value === 'string' ? parseInt(value, 10) : undefined;
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Before the lib modules are loaded (Firebase Admin initializes on import)
+  process.env.VECTOR_STORE = 'local';
+  process.env.EMBEDDING_PROVIDER = 'local';
+  delete process.env.LOCAL_VECTOR_STORE_PATH;
+  delete process.env.FIREBASE_PROJECT_ID;
+
+  const { isRankingProfileName } = await import('../lib/memory-ranking');
+  const { loadBenchmarkFixture, runRetrievalBenchmark, formatBenchmarkReports, DEFAULT_CUTOFFS } = await import('../lib/retrieval-benchmark');
+
+  const fixturePath = path.resolve(typeof args.fixtures === 'string' ? args.fixtures : 'benchmarks/retrieval-fixtures.json');
+  const fixture: BenchmarkFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+  const rankings = list(args.ranking, ['balanced']);
+  const invalid = rankings.filter(name => !isRankingProfileName(name));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown ranking profile: ${invalid.join(', ')}`);
+  }
+  const keywordWeights = list(args['keyword-weight'], ['0.3']).map(Number);
+  const cutoffs = list(args.k, DEFAULT_CUTOFFS.map(String)).map(Number);
+
+  // The pipeline logs every store and search; keep the output to the report
+  const log = console.log;
+  if (!args.verbose) console.log = () => {};
+
+  const reports: BenchmarkReport[] = [];
+  try {
+    await loadBenchmarkFixture(fixture);
+    for (const ranking of rankings) {
+      for (const keywordWeight of keywordWeights) {
+        reports.push(await runRetrievalBenchmark(fixture, {
+          ranking: ranking as RankingProfileName,
+          keywordWeight,
+          maxMemories: optionalInt(args['max-memories']),
+          maxTokens: optionalInt(args['max-tokens']),
+        }, cutoffs));
+      }
+    }
+  } finally {
+    console.log = log;
+  }
+
+  console.log(args.json ? JSON.stringify(reports, null, 2) : formatBenchmarkReports(reports));
+}
+
+main().catch((error) => {
+  console.error('Retrieval benchmark failed:', error);
+  process.exit(1);
+});
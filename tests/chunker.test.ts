@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkTranscript } from '../lib/chunker';
+
+const turn = (speaker: string, text: string) => ({ speaker, text });
+
+test('a short transcript is one chunk with every line labelled', () => {
+  const chunks = chunkTranscript([turn('user', 'Hi Alex'), turn('agent', 'Hello! How are you?'), turn('user', '  ')]);
+  assert.equal(chunks.length, 1);
+  assert.equal(chunks[0].text, 'user: Hi Alex\nagent: Hello! How are you?');
+  assert.deepEqual(chunks[0].speakers, ['user', 'agent']);
+  assert.equal(chunks[0].startLine, 0);
+  assert.equal(chunks[0].endLine, 1);
+  assert.deepEqual(chunkTranscript([]), []);
+});
+
+test('long calls are split between turns into overlapping windows of at most maxChars', () => {
+  const lines = Array.from({ length: 12 }, (_, i) => turn(i % 2 ? 'agent' : 'user', `This is turn number ${i} of the call.`));
+  const chunks = chunkTranscript(lines, { maxChars: 120, overlapChars: 50 });
+
+  assert.ok(chunks.length > 1);
+  chunks.forEach((chunk, i) => {
+    assert.equal(chunk.index, i);
+    assert.ok(chunk.text.length <= 120);
+    chunk.text.split('\n').forEach(line => assert.match(line, /^(user|agent): This is turn number \d+ of the call\.$/));
+  });
+  // Each window starts inside the previous one and moves forward
+  for (let i = 1; i < chunks.length; i++) {
+    assert.ok(chunks[i].startLine <= chunks[i - 1].endLine);
+    assert.ok(chunks[i].startLine > chunks[i - 1].startLine);
+  }
+  assert.equal(chunks[chunks.length - 1].endLine, 11);
+});
+
+test('a turn longer than maxChars is split at sentence boundaries and keeps its speaker', () => {
+  const story = 'We drove to the coast on Saturday. The dog ran straight into the sea. Then it rained all afternoon.';
+  const chunks = chunkTranscript([turn('user', story)], { maxChars: 60, overlapChars: 0 });
+
+  assert.deepEqual(chunks.map(chunk => chunk.text), [
+    'user: We drove to the coast on Saturday.',
+    'user: The dog ran straight into the sea.',
+    'user: Then it rained all afternoon.',
+  ]);
+  chunks.forEach(chunk => assert.equal(chunk.startLine, 0));
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCircuitBreaker, isCircuitOpenError, isTransientError } from '../lib/circuit-breaker';
+
+process.env.CIRCUIT_BREAKER_THRESHOLD = '2';
+process.env.CIRCUIT_BREAKER_COOLDOWN_MS = '20';
+
+const unavailable = () => Promise.reject(Object.assign(new Error('Service Unavailable'), { status: 503 }));
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('transient errors are told apart from bad requests', () => {
+  assert.equal(isTransientError({ status: 503 }), true);
+  assert.equal(isTransientError({ status: 429 }), true);
+  assert.equal(isTransientError({ status: 400 }), false);
+  assert.equal(isTransientError(Object.assign(new Error('no such index'), { name: 'PineconeNotFoundError' })), false);
+});
+
+test('the circuit opens after consecutive transient failures and lets one trial through after the cool-down', async () => {
+  const breaker = getCircuitBreaker('openai');
+  await assert.rejects(breaker.run(unavailable));
+  assert.equal(breaker.status().state, 'closed');
+  await assert.rejects(breaker.run(unavailable));
+  assert.equal(breaker.status().state, 'open');
+  await assert.rejects(breaker.run(() => Promise.resolve('not called')), isCircuitOpenError);
+
+  await wait(30);
+  assert.equal(breaker.status().state, 'half-open');
+
+  let finishTrial: (value: string) => void = () => {};
+  const trial = breaker.run(() => new Promise<string>((resolve) => { finishTrial = resolve; }));
+  // Everyone else waits for the trial
+  await assert.rejects(breaker.run(() => Promise.resolve('not called')), isCircuitOpenError);
+
+  finishTrial('ok');
+  assert.equal(await trial, 'ok');
+  assert.equal(breaker.status().state, 'closed');
+  assert.equal(await breaker.run(() => Promise.resolve('after')), 'after');
+});
+
+test('a failed trial opens the circuit again', async () => {
+  const breaker = getCircuitBreaker('pinecone');
+  await assert.rejects(breaker.run(unavailable));
+  await assert.rejects(breaker.run(unavailable));
+  await wait(30);
+
+  await assert.rejects(breaker.run(unavailable), (error: unknown) => !isCircuitOpenError(error));
+  assert.equal(breaker.status().state, 'open');
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createKeywordIndex, tokenize } from '../lib/keyword-index';
+import { matchesFilter } from '../lib/metadata-filter';
+
+const memory = (id: string, text: string, callId: string = 'call-1') => ({ id, text, metadata: { userId: 'u1', callId, text } });
+
+const documents = [
+  memory('dog', 'user: We took Biscuit to the vet in Tallahassee'),
+  memory('walk', 'user: I walked to the park and then the park again', 'call-2'),
+  memory('garden', 'user: The tomatoes in the garden are finally ripe'),
+  memory('park', 'user: The park was busy today', 'call-2'),
+];
+
+test('tokens are lowercase words without stopwords or single letters', () => {
+  assert.deepEqual(tokenize('User: I met Anna at the Café in Zürich, 2 times!'), ['met', 'anna', 'café', 'zürich', 'times']);
+});
+
+test('BM25 finds rare words and scores relative to the best match', () => {
+  const index = createKeywordIndex(documents);
+  const [best, ...rest] = index.search('Where is Biscuit?', 5);
+  assert.equal(best.id, 'dog');
+  assert.equal(best.score, 1);
+  assert.equal(rest.length, 0);
+
+  // Repeated terms in a shorter document rank higher
+  const park = index.search('park', 5);
+  assert.deepEqual(park.map(match => match.id), ['walk', 'park']);
+  assert.ok(park[1].score < 1);
+
+  assert.deepEqual(index.search('the and of', 5), []);
+});
+
+test('the index is updated in place and honours the predicate', () => {
+  const index = createKeywordIndex(documents);
+  index.upsert([memory('garden', 'user: Biscuit dug up the garden')]);
+  assert.equal(index.size, 4);
+  assert.deepEqual(index.search('tomatoes', 5), []);
+  assert.deepEqual(index.search('biscuit', 5).map(match => match.id).sort(), ['dog', 'garden']);
+
+  index.remove(['dog']);
+  assert.deepEqual(index.search('tallahassee', 5), []);
+  assert.deepEqual(index.search('park', 5, metadata => matchesFilter(metadata, { callId: { $ne: 'call-2' } })), []);
+});
+
+test('metadata filters support the Pinecone operators used for memories', () => {
+  const metadata = { userId: 'u1', type: 'summary', importance: 0.7, topics: ['dog', 'vet'], deleted: true };
+  assert.equal(matchesFilter(metadata, { userId: { $eq: 'u1' }, type: { $in: ['summary', 'note'] } }), true);
+  assert.equal(matchesFilter(metadata, { deleted: { $ne: true } }), false);
+  assert.equal(matchesFilter({ userId: 'u1' }, { deleted: { $ne: true } }), true);
+  assert.equal(matchesFilter(metadata, { importance: { $gte: 0.7, $lt: 0.8 } }), true);
+  assert.equal(matchesFilter(metadata, { type: { $nin: ['summary'] } }), false);
+  assert.equal(matchesFilter(metadata, { topics: 'vet' }), true);
+});
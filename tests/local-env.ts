@@ -0,0 +1,6 @@
+// Imported first by tests that store memories: the local embedder and an in-memory local
+// vector store, no Firebase (as in scripts/benchmark-retrieval.ts)
+process.env.VECTOR_STORE = 'local';
+process.env.EMBEDDING_PROVIDER = 'local';
+delete process.env.LOCAL_VECTOR_STORE_PATH;
+delete process.env.FIREBASE_PROJECT_ID;
@@ -0,0 +1,131 @@
+import './local-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseJsonl,
+  toJsonl,
+  toPortableMemory,
+  toMarkdownJournal,
+  importedMemoryId,
+  importUserMemories,
+  exportUserMemories,
+} from '../lib/memory-export';
+import type { PortableMemory } from '../lib/memory-export';
+import { buildMemoryId } from '../lib/vector-memory';
+import type { MemorySearchResult } from '../lib/vector-memory';
+
+const line = (fields: Record<string, unknown>) => JSON.stringify({
+  text: 'My sister Anna lives in Boston',
+  speaker: 'user',
+  callId: 'call-1',
+  timestamp: '2026-03-01T10:00:00.000Z',
+  type: 'utterance',
+  ...fields,
+});
+
+test('exports round-trip through JSONL', () => {
+  const memory: MemorySearchResult = {
+    id: 'u1_call-1_summary_abc',
+    text: 'The user talked about Anna.',
+    speaker: 'summary',
+    callId: 'call-1',
+    timestamp: new Date('2026-03-01T10:00:00.000Z'),
+    type: 'summary',
+    importance: 0.8,
+    pinned: true,
+    score: 0,
+    metadata: { topics: ['family'], people: ['Anna (sister)'], followUps: [], emotionalTone: 'happy' },
+  };
+
+  const { memories, errors } = parseJsonl(toJsonl([toPortableMemory(memory)]));
+  assert.deepEqual(errors, []);
+  assert.equal(memories.length, 1);
+  assert.deepEqual(memories[0].people, ['Anna (sister)']);
+  assert.equal(memories[0].pinned, true);
+});
+
+test('rejects malformed rows one by one', () => {
+  const { memories, errors } = parseJsonl([
+    line({}),
+    'not json',
+    line({ topics: 'family' }),
+    line({ followUps: [1, 2] }),
+    line({ utteranceIndex: -1 }),
+    line({ chunkIndex: '3' }),
+    line({ pinned: 'yes' }),
+    line({ emotionalTone: { mood: 'happy' } }),
+    line({ type: 'secret' }),
+    line({ timestamp: 'yesterday' }),
+  ].join('\n'));
+
+  assert.equal(memories.length, 1);
+  assert.deepEqual(errors.map(error => error.line), [2, 3, 4, 5, 6, 7, 8, 9, 10]);
+});
+
+test('keeps only the known fields', () => {
+  const { memories } = parseJsonl(line({ userId: 'someone-else', deleted: true, embeddingModel: 'x' }));
+  assert.deepEqual(Object.keys(memories[0]).sort(), ['callId', 'speaker', 'text', 'timestamp', 'type']);
+});
+
+test('imported IDs are rebuilt from the content, not taken from the file', () => {
+  const { memories } = parseJsonl(line({ id: 'u1_call-9_summary_0123456789abcdef', utteranceIndex: 4 }));
+  const id = importedMemoryId('u1', memories[0]);
+  assert.equal(id, buildMemoryId('u1', 'call-1', 'u4', 'user: My sister Anna lives in Boston'));
+});
+
+const portable = (fields: Partial<PortableMemory>): PortableMemory => ({
+  text: 'My sister Anna lives in Boston',
+  speaker: 'user',
+  callId: 'call-1',
+  timestamp: '2026-03-01T10:00:00.000Z',
+  type: 'utterance',
+  ...fields,
+});
+
+test('the Markdown journal lists notes, then each call with its summary and conversation', () => {
+  const journal = toMarkdownJournal([
+    portable({ type: 'utterance', speaker: 'agent', text: 'Tell me about her', utteranceIndex: 1 }),
+    portable({ type: 'utterance', utteranceIndex: 0 }),
+    portable({ type: 'conversation', speaker: 'conversation', text: 'user: left out when utterances exist', chunkIndex: 0 }),
+    portable({ type: 'summary', speaker: 'summary', text: 'Talked about Anna.' }),
+    portable({ type: 'note', callId: 'notes', text: 'Birthday on 4 May', timestamp: '2026-02-01T10:00:00.000Z' }),
+  ], { userName: 'Rose', now: new Date('2026-03-02T10:00:00.000Z') });
+
+  const expected = [
+    '# What Alex remembers about Rose',
+    '## Things to remember',
+    '- Birthday on 4 May _(2026-02-01)_',
+    '## 2026-03-01 (yesterday)',
+    '**Summary**',
+    'Talked about Anna.',
+    '- **Rose:** My sister Anna lives in Boston',
+    '- **Alex:** Tell me about her',
+  ];
+  const lines = journal.split('\n');
+  let position = -1;
+  expected.forEach((entry) => {
+    const next = lines.indexOf(entry, position + 1);
+    assert.ok(next > position, `${entry} in order`);
+    position = next;
+  });
+  assert.equal(journal.includes('left out'), false);
+});
+
+test('importing the same export twice overwrites instead of duplicating', async () => {
+  const userId = 'import-user';
+  const memories = [
+    portable({ utteranceIndex: 0 }),
+    portable({ type: 'note', callId: 'notes', text: 'Call Anna on Sundays', pinned: true }),
+    { text: '', callId: 'call-1' } as unknown as PortableMemory,
+  ];
+
+  const first = await importUserMemories(userId, memories);
+  assert.equal(first.imported, 2);
+  assert.deepEqual(first.errors, [{ line: 3, error: 'text is required' }]);
+
+  await importUserMemories(userId, memories);
+  const exported = await exportUserMemories(userId);
+  assert.equal(exported.length, 2);
+  assert.equal(exported.find(memory => memory.type === 'note')?.pinned, true);
+  assert.ok(exported.every(memory => memory.id === importedMemoryId(userId, memory)));
+});
@@ -0,0 +1,51 @@
+import './local-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { retryDelayMs, outboxEntryId, performMemoryWrite, enqueueMemoryWrite, processMemoryOutbox } from '../lib/memory-outbox';
+import { toDate } from '../lib/firestore-dates';
+import { getUserVectorStore } from '../lib/vector-store';
+
+test('retry delays double per attempt within ±20% jitter, up to 6 hours', () => {
+  process.env.OUTBOX_BASE_DELAY_MS = '1000';
+  try {
+    [1, 2, 3, 5].forEach((attempt) => {
+      const expected = 1000 * Math.pow(2, attempt - 1);
+      for (let i = 0; i < 20; i++) {
+        const delay = retryDelayMs(attempt);
+        assert.ok(delay >= expected * 0.8 && delay <= expected * 1.2, `attempt ${attempt}: ${delay}`);
+      }
+    });
+    assert.ok(retryDelayMs(40) <= 6 * 60 * 60 * 1000 * 1.2);
+    assert.ok(retryDelayMs(0) <= 1200);
+  } finally {
+    delete process.env.OUTBOX_BASE_DELAY_MS;
+  }
+});
+
+test('entries are keyed by kind, user and call, so a newer write replaces a pending one', () => {
+  assert.equal(outboxEntryId({ kind: 'store', userId: 'u1', callId: 'c1' }), 'store_u1_c1');
+  assert.notEqual(outboxEntryId({ kind: 'summarize', userId: 'u1', callId: 'c1' }), 'store_u1_c1');
+});
+
+test('Firestore dates are read from Timestamps and Dates only', () => {
+  const date = new Date('2026-05-01T00:00:00Z');
+  assert.equal(toDate(date), date);
+  assert.equal(toDate({ toDate: () => date }), date);
+  assert.equal(toDate('2026-05-01'), null);
+  assert.equal(toDate(null), null);
+  assert.equal(toDate({ toDate: 'not a function' }), null);
+});
+
+test('a store write embeds the transcript; without Firestore nothing can be queued', async () => {
+  const write = {
+    kind: 'store' as const,
+    userId: 'outbox-user',
+    callId: 'call-1',
+    transcripts: [{ speaker: 'user', text: 'I baked bread this morning' }],
+  };
+  assert.deepEqual(await performMemoryWrite(write), {});
+  assert.ok((await getUserVectorStore('outbox-user').scan({ callId: { $eq: 'call-1' } })).length > 0);
+
+  assert.equal(await enqueueMemoryWrite(write, new Error('OpenAI is down')), false);
+  assert.deepEqual(await processMemoryOutbox(), { processed: 0, succeeded: 0, retried: 0, deadLettered: 0, stopped: null });
+});
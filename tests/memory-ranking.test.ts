@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  rankMemories,
+  recencyAdjustedScore,
+  importanceAdjustedScore,
+  resolveRankingProfile,
+  isRankingProfileName,
+  RANKING_PROFILES,
+} from '../lib/memory-ranking';
+import type { RankingProfile } from '../lib/memory-ranking';
+
+const now = new Date('2026-06-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const profile = (overrides: Partial<RankingProfile>): RankingProfile => ({ ...RANKING_PROFILES.raw, ...overrides });
+
+test('profiles are resolved by name and unknown names are rejected', () => {
+  assert.equal(resolveRankingProfile(), RANKING_PROFILES.balanced);
+  assert.equal(resolveRankingProfile('recent'), RANKING_PROFILES.recent);
+  assert.equal(isRankingProfileName('diverse'), true);
+  assert.equal(isRankingProfileName('toString'), false);
+  assert.equal(isRankingProfileName(3), false);
+});
+
+test('the decaying share of the score halves every half-life', () => {
+  const decaying = profile({ halfLifeDays: 10, recencyWeight: 0.5 });
+  assert.equal(recencyAdjustedScore({ score: 0.8, timestamp: now }, decaying, now), 0.8);
+  assert.ok(Math.abs(recencyAdjustedScore({ score: 0.8, timestamp: daysAgo(10) }, decaying, now) - 0.6) < 1e-9);
+  // Future timestamps count as now
+  assert.equal(recencyAdjustedScore({ score: 0.8, timestamp: daysAgo(-5) }, decaying, now), 0.8);
+  assert.equal(recencyAdjustedScore({ score: 0.8, timestamp: daysAgo(400) }, RANKING_PROFILES.raw, now), 0.8);
+});
+
+test('importance scales the score up or down by at most the weight', () => {
+  const weighted = profile({ importanceWeight: 0.5 });
+  assert.ok(Math.abs(importanceAdjustedScore(0.6, { score: 0.6, timestamp: now, importance: 1 }, weighted) - 0.9) < 1e-9);
+  assert.ok(Math.abs(importanceAdjustedScore(0.6, { score: 0.6, timestamp: now, importance: 0 }, weighted) - 0.3) < 1e-9);
+  assert.equal(importanceAdjustedScore(0.6, { score: 0.6, timestamp: now, importance: 0.5 }, weighted), 0.6);
+  assert.equal(importanceAdjustedScore(0.6, { score: 0.6, timestamp: now }, weighted), 0.6);
+});
+
+test('ranking drops weak matches and prefers recent ones of similar relevance', () => {
+  const candidates = [
+    { id: 'old', score: 0.8, timestamp: daysAgo(60) },
+    { id: 'new', score: 0.75, timestamp: daysAgo(1) },
+    { id: 'weak', score: 0.1, timestamp: now },
+  ];
+  const ranked = rankMemories(candidates, 5, profile({ halfLifeDays: 30, recencyWeight: 0.3, minScore: 0.2 }), now);
+  assert.deepEqual(ranked.map(candidate => candidate.id), ['new', 'old']);
+  // Returned scores are the adjusted ones
+  assert.ok(ranked[1].score < 0.8);
+});
+
+test('maximal marginal relevance keeps a near-duplicate from crowding out another topic', () => {
+  const candidates = [
+    { id: 'dog', score: 0.9, timestamp: now, values: [1, 0, 0] },
+    { id: 'dog-again', score: 0.88, timestamp: now, values: [0.99, 0.14, 0] },
+    { id: 'garden', score: 0.7, timestamp: now, values: [0, 0, 1] },
+  ];
+  assert.deepEqual(rankMemories(candidates, 2, RANKING_PROFILES.raw, now).map(candidate => candidate.id), ['dog', 'dog-again']);
+  assert.deepEqual(rankMemories(candidates, 2, profile({ mmrLambda: 0.5 }), now).map(candidate => candidate.id), ['dog', 'garden']);
+});
@@ -0,0 +1,80 @@
+import './local-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storeMemories } from '../lib/vector-memory';
+import { getUserVectorStore } from '../lib/vector-store';
+import {
+  sanitizeRetentionPolicy,
+  purgeUserMemories,
+  purgeExpiredMemories,
+  DEFAULT_RETENTION_POLICY,
+} from '../lib/memory-retention';
+
+const now = new Date('2026-06-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+async function storeAgedMemories(userId: string): Promise<string[]> {
+  return storeMemories(userId, 'call-1', [
+    { text: 'We talked about the rain', type: 'utterance', speaker: 'user', timestamp: daysAgo(40) },
+    { text: 'Yesterday was sunny', type: 'utterance', speaker: 'user', timestamp: daysAgo(1) },
+    { text: 'Call about the weather', type: 'summary', speaker: 'agent', timestamp: daysAgo(40) },
+    {
+      text: 'My granddaughter is called Mia',
+      type: 'utterance',
+      speaker: 'user',
+      timestamp: daysAgo(400),
+      extraMetadata: { pinned: true, pinnedBy: 'user', pinnedAt: daysAgo(400).toISOString() },
+    },
+  ]);
+}
+
+test('policies keep known categories with valid day counts', () => {
+  assert.deepEqual(
+    sanitizeRetentionPolicy({ utterance: 30, summary: null, note: -1, fact: Infinity, transcript: '7', unknown: 5 }),
+    { utterance: 30, summary: null }
+  );
+  assert.deepEqual(sanitizeRetentionPolicy('30'), {});
+  assert.ok(Object.values(DEFAULT_RETENTION_POLICY).every(days => days === null));
+});
+
+test('expired and forgotten memories are purged; pinned and recent ones are kept', async () => {
+  const userId = 'retention-user';
+  const [oldId, recentId, summaryId, pinnedId] = await storeAgedMemories(userId);
+  const store = getUserVectorStore(userId);
+  const [recent] = await store.fetch([recentId]);
+  await store.upsert([{ ...recent, metadata: { ...recent.metadata, deleted: true } }]);
+
+  const policy = { ...DEFAULT_RETENTION_POLICY, utterance: 30 };
+  const dryRun = await purgeUserMemories(userId, policy, { dryRun: true, now });
+  assert.deepEqual(dryRun.memoryIds.sort(), [oldId, recentId].sort());
+  assert.equal(dryRun.removed.utterance, 1);
+  assert.equal(dryRun.removed.forgotten, 1);
+  assert.equal((await store.fetch([oldId])).length, 1);
+
+  await purgeUserMemories(userId, policy, { now });
+  const remaining = (await store.fetch([oldId, recentId, summaryId, pinnedId])).map(record => record.id).sort();
+  assert.deepEqual(remaining, [summaryId, pinnedId].sort());
+});
+
+test('a run past its deadline stops and reports where to resume', async () => {
+  const userIds = ['retention-a', 'retention-b', 'retention-c'];
+  const report = await purgeExpiredMemories({
+    userIds,
+    now,
+    deadlineMs: 1,
+    // Each user takes longer than the deadline
+    onProgress: () => {
+      const until = Date.now() + 5;
+      while (Date.now() < until) { /* busy */ }
+    },
+  });
+
+  assert.equal(report.stopped, 'deadline');
+  assert.equal(report.processed, 1);
+  assert.equal(report.resumeAfter, 'retention-a');
+
+  const complete = await purgeExpiredMemories({ userIds, now });
+  assert.equal(complete.stopped, null);
+  assert.equal(complete.processed, 3);
+  assert.equal(complete.resumeAfter, null);
+});
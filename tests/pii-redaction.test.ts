@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactText } from '../lib/pii-redaction';
+
+const redact = (text: string) => redactText(text).text;
+
+test('masks addresses', () => {
+  assert.equal(redact('I live at 42 Oak Street, Apt 3 now'), 'I live at [address] now');
+  assert.equal(redact('Send it to 140 Willow Way.'), 'Send it to [address]');
+  assert.equal(redact('We moved to 27 Maple Court, Springfield'), 'We moved to [address], Springfield');
+});
+
+test('leaves counts of capitalized words alone', () => {
+  assert.equal(redact('2 Dogs Way'), '2 Dogs Way');
+  assert.equal(redact('She has 3 Little Court cases this week'), 'She has 3 Little Court cases this week');
+  assert.equal(redact('There were 30 Little Court cases'), 'There were 30 Little Court cases');
+});
+
+test('masks phone numbers read out digit by digit', () => {
+  assert.equal(redact('call me on five five five, one two three, four five six seven'), 'call me on [phone number]');
+});
+
+test('leaves counting alone', () => {
+  assert.equal(redact('one, two, three, four, five, six, seven'), 'one, two, three, four, five, six, seven');
+  assert.equal(redact('nine eight seven six five four three two one zero'), 'nine eight seven six five four three two one zero');
+});
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { factMatchesTopic } from '../lib/user-facts';
+
+const exHusband = { key: 'ex_husband', label: 'Ex-husband', value: 'Mark, divorced in 2019' };
+const dog = { key: 'dog_name', label: 'Dog', value: 'Biscuit, a beagle' };
+const sister = { key: 'sister_name', label: 'Sister', value: 'Anna' };
+
+test('forgetting a topic matches the facts about it', () => {
+  assert.equal(factMatchesTopic(exHusband, 'my ex'), true);
+  assert.equal(factMatchesTopic(dog, 'my dogs'), true);
+  assert.equal(factMatchesTopic(dog, 'Biscuit'), true);
+});
+
+test('forgetting a topic leaves unrelated facts alone', () => {
+  assert.equal(factMatchesTopic(exHusband, 'my dog'), false);
+  assert.equal(factMatchesTopic(sister, "my sister's wedding"), false);
+  // Only stopwords: nothing to match on
+  assert.equal(factMatchesTopic(sister, 'my'), false);
+});
@@ -0,0 +1,69 @@
+import './local-env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storeMemories, searchMemories, storeConversationMemory, buildMemoryId } from '../lib/vector-memory';
+import { getUserVectorStore } from '../lib/vector-store';
+
+const userId = 'test-user';
+
+test('keyword hits from a stale index still honour the search filter', async () => {
+  const [forgottenId, excludedId] = await storeMemories(userId, 'call-1', [
+    { text: 'My dog Biscuit loves the beach', speaker: 'user' },
+    { text: 'Biscuit chewed my slippers again', speaker: 'user', callId: 'call-2' },
+  ]);
+  await storeMemories(userId, 'call-3', [{ text: 'We talked about the weather', speaker: 'user' }]);
+
+  // Builds and caches the keyword index
+  assert.equal((await searchMemories(userId, 'Biscuit', 5)).length >= 2, true);
+
+  // Forgotten by another instance: the cached index here doesn't know
+  const store = getUserVectorStore(userId);
+  const [record] = await store.fetch([forgottenId]);
+  await store.upsert([{ ...record, metadata: { ...record.metadata, deleted: true } }]);
+
+  const ids = (await searchMemories(userId, 'Biscuit', 5)).map(memory => memory.id);
+  assert.equal(ids.includes(forgottenId), false);
+  assert.equal(ids.includes(excludedId), true);
+
+  const withoutCall = await searchMemories(userId, 'Biscuit', 5, { excludeCallId: 'call-2' });
+  assert.equal(withoutCall.some(memory => memory.id === excludedId), false);
+});
+
+test('memory IDs are derived from the user, call, position and content', () => {
+  const id = buildMemoryId('u1', 'call-1', 'u0', 'user: I love gardening');
+  assert.match(id, /^u1_call-1_u0_[0-9a-f]{16}$/);
+  assert.equal(buildMemoryId('u1', 'call-1', 'u0', 'user: I love gardening'), id);
+  assert.notEqual(buildMemoryId('u1', 'call-1', 'u0', 'user: I love cooking'), id);
+  assert.notEqual(buildMemoryId('u1', 'call-1', 'u1', 'user: I love gardening'), id);
+  assert.notEqual(buildMemoryId('u2', 'call-1', 'u0', 'user: I love gardening'), id);
+});
+
+test('re-sent transcripts only store new lines and replace changed ones', async () => {
+  const caller = 'dedupe-user';
+  const store = getUserVectorStore(caller);
+  const callIds = async () => (await store.scan({ callId: { $eq: 'call-1' } })).map(record => record.id).sort();
+  const transcript = [
+    { speaker: 'user', text: 'I planted tomatoes today' },
+    { speaker: 'agent', text: 'How lovely! Which kind?' },
+  ];
+
+  await storeConversationMemory(caller, 'call-1', transcript);
+  const first = await callIds();
+  // Two utterances and one conversation chunk
+  assert.equal(first.length, 3);
+
+  await storeConversationMemory(caller, 'call-1', transcript);
+  assert.deepEqual(await callIds(), first);
+
+  const longer = [...transcript, { speaker: 'user', text: 'Cherry tomatoes, the small ones' }];
+  await storeConversationMemory(caller, 'call-1', longer);
+  const afterLonger = await callIds();
+  // The new line is added; the chunk now covering three lines replaces the old one
+  assert.equal(afterLonger.length, 4);
+  assert.ok(first.filter(id => id.includes('_u')).every(id => afterLonger.includes(id)));
+
+  // An out-of-date shorter copy removes nothing
+  await storeConversationMemory(caller, 'call-1', transcript);
+  const afterShorter = await callIds();
+  assert.ok(afterLonger.every(id => afterShorter.includes(id)));
+});